@@ -9,23 +9,136 @@ pragma solidity ^0.8.20;
  */
 contract SpectrumMarket {
     
-    // Struct packing: fits in 2 storage slots instead of 4 (saves gas)
+    // Struct packing: fits in 3 storage slots instead of 7 (saves gas)
     struct Grant {
         address provider;       // 20 bytes - slot 0
         uint96 paidAmount;      // 12 bytes - slot 0 (packed with provider)
         uint32 frequency;       // 4 bytes - slot 1 (frequency in MHz, max 4.2B MHz = 4.2 EHz)
         uint32 expiresAt;       // 4 bytes - slot 1 (packed, timestamp until year 2106)
+        uint32 grantedAt;       // 4 bytes - slot 1 (start of the window paidAmount covers)
+        address payer;          // 20 bytes - slot 1 (provider, or the device wallet whose escrow paid)
+        bytes32 channelCell;    // 32 bytes - slot 2 (frequency + geographic cell the grant occupies)
     }
     
-    // Contract owner (for withdrawals)
-    address public immutable owner;
+    // A device's standing offer to pay for access, locked from its escrow
+    struct AccessRequest {
+        address requester;      // 20 bytes - slot 0
+        uint96 bid;             // 12 bytes - slot 0 (most the requester will pay)
+        uint32 frequency;       // 4 bytes - slot 1
+        uint32 duration;        // 4 bytes - slot 1 (grant length once accepted)
+        uint32 expiresAt;       // 4 bytes - slot 1 (request is void after this)
+        int32 latitude;         // 4 bytes - slot 1 (microdegrees)
+        int32 longitude;        // 4 bytes - slot 1 (microdegrees)
+    }
+    
+    enum ProviderStatus { None, Active, Suspended, Exiting }
+    
+    // A registered provider and the stake backing it
+    struct ProviderInfo {
+        uint96 stake;           // 12 bytes - slot 0
+        ProviderStatus status;  // 1 byte - slot 0
+        uint32 registeredAt;    // 4 bytes - slot 0
+        uint32 unlocksAt;       // 4 bytes - slot 0 (Exiting: stake withdrawable from here)
+    }
+    
+    // One entry of batchGrantAccess; payment is this item's share of msg.value
+    struct GrantRequest {
+        bytes32 deviceId;
+        uint32 frequency;
+        uint32 duration;
+        uint96 payment;
+        int32 latitude;
+        int32 longitude;
+    }
+    
+    // One entry of batchExtendGrant
+    struct ExtendRequest {
+        bytes32 deviceId;
+        uint32 duration;
+        uint96 payment;
+    }
+    
+    // One entry of batchAcceptRequests; price is charged from the locked bid
+    struct AcceptRequest {
+        bytes32 deviceId;
+        uint96 price;
+    }
+    
+    // Longest a grant may run from now, including extensions
+    uint32 public constant MAX_DURATION = 3600;
+    
+    // Upper bound on items per batch call (keeps gas per tx predictable)
+    uint256 public constant MAX_BATCH_SIZE = 100;
+    
+    // Side of a geographic cell in microdegrees (10000 = 0.01°, about 1.1 km of latitude)
+    uint32 public cellSize = 10000;
+    
+    // Concurrent grants allowed on one frequency within one cell
+    uint16 public maxGrantsPerChannel = 3;
+    
+    // Contract owner (withdrawals, provider discipline, pause); changes hands in two steps
+    address public owner;
+    address public pendingOwner;
+    
+    // Grants, extensions and acceptances are blocked while paused; revokes still work
+    bool public paused;
+    
+    // Stake a provider must hold to issue grants
+    uint96 public minProviderStake = 0.1 ether;
+    
+    // provider => registration
+    mapping(address => ProviderInfo) public providers;
+    
+    // Stake held for providers; like escrow, never available to the owner
+    uint256 public totalStaked;
+    
+    // Lowest payment, bid or price accepted on a frequency without its own floor
+    uint96 public defaultMinPrice = 0.001 ether;
+    
+    // frequency => payment floor; zero falls back to defaultMinPrice
+    mapping(uint32 => uint96) public frequencyMinPrice;
+    
+    // May set payment floors alongside the owner, e.g. a congestion pricing feed
+    address public priceOracle;
+    
+    // Protocol share of device payments, in basis points
+    uint16 public protocolFeeBps = 500;
+    uint16 public constant MAX_PROTOCOL_FEE_BPS = 3000;
+    
+    // provider => settled earnings not yet claimed
+    mapping(address => uint256) public earnings;
+    
+    // Sum of all unclaimed provider earnings
+    uint256 public totalUnclaimed;
+    
+    // Settled revenue owed to the owner: protocol fees, self-funded grants and slashed stake
+    uint256 public protocolFees;
     
     // deviceId => Grant
     mapping(bytes32 => Grant) public activeGrants;
     
-    // Track total funds collected
+    // Track total funds collected (net of refunds)
     uint256 public totalCollected;
     
+    // wallet => escrow not locked in a request
+    mapping(address => uint256) public escrowBalance;
+    
+    // deviceId => open request
+    mapping(bytes32 => AccessRequest) public accessRequests;
+    
+    // Device funds held: free escrow, locked bids and unsettled device-paid grants.
+    // Never available to the owner.
+    uint256 public totalEscrowed;
+    
+    // Payments of self-funded grants not settled yet; part may still be
+    // refunded to the provider, so never available to the owner either
+    uint256 public totalGrantPayments;
+    
+    bool private locked;
+    
+    // channel-cell => devices granted in it (expired entries are pruned on the next grant)
+    mapping(bytes32 => bytes32[]) private cellGrants;
+    
     // Events
     event AccessGranted(
         bytes32 indexed deviceId,
@@ -42,6 +155,147 @@ contract SpectrumMarket {
         uint256 timestamp
     );
     
+    event GrantExtended(
+        bytes32 indexed deviceId,
+        uint32 duration,
+        uint96 amount,
+        uint32 expiresAt,
+        address indexed provider,
+        uint256 timestamp
+    );
+    
+    // Unused share of paidAmount returned to the payer when a grant ends early
+    event GrantRefunded(
+        bytes32 indexed deviceId,
+        address indexed recipient,
+        uint256 amount
+    );
+    
+    event EscrowDeposited(
+        address indexed account,
+        uint256 amount
+    );
+    
+    event EscrowWithdrawn(
+        address indexed account,
+        uint256 amount
+    );
+    
+    event AccessRequested(
+        bytes32 indexed deviceId,
+        address indexed requester,
+        uint32 frequency,
+        uint32 duration,
+        uint96 bid,
+        uint32 expiresAt
+    );
+    
+    event RequestCancelled(
+        bytes32 indexed deviceId,
+        address indexed requester
+    );
+    
+    event RequestAccepted(
+        bytes32 indexed deviceId,
+        address indexed requester,
+        address indexed provider,
+        uint96 price
+    );
+    
+    // Per-item failures inside a batch; reason is the custom error selector
+    event GrantFailed(
+        bytes32 indexed deviceId,
+        bytes4 reason
+    );
+    
+    event RevokeFailed(
+        bytes32 indexed deviceId,
+        bytes4 reason
+    );
+    
+    event ExtendFailed(
+        bytes32 indexed deviceId,
+        bytes4 reason
+    );
+    
+    event AcceptFailed(
+        bytes32 indexed deviceId,
+        bytes4 reason
+    );
+    
+    event ChannelLimitsUpdated(
+        uint32 cellSize,
+        uint16 maxGrantsPerChannel
+    );
+    
+    event ProviderStaked(
+        address indexed provider,
+        uint256 amount,
+        uint256 totalStake
+    );
+    
+    event ProviderSuspended(address indexed provider);
+    
+    event ProviderReinstated(address indexed provider);
+    
+    event ProviderSlashed(
+        address indexed provider,
+        uint256 amount,
+        uint256 remainingStake
+    );
+    
+    event ProviderExiting(
+        address indexed provider,
+        uint32 unlocksAt
+    );
+    
+    event StakeWithdrawn(
+        address indexed provider,
+        uint256 amount
+    );
+    
+    event MinProviderStakeUpdated(uint96 minStake);
+    
+    // Used share of a grant's payment, split when the grant settles
+    event RevenueSettled(
+        bytes32 indexed deviceId,
+        address indexed provider,
+        uint256 providerShare,
+        uint256 protocolShare
+    );
+    
+    event EarningsClaimed(
+        address indexed provider,
+        uint256 amount
+    );
+    
+    // A refund the provider's address would not take, added to its earnings instead
+    event PayoutDeferred(
+        address indexed provider,
+        uint256 amount
+    );
+    
+    event ProtocolFeeUpdated(uint16 feeBps);
+    
+    // frequency 0 is the default floor
+    event MinPriceUpdated(uint32 indexed frequency, uint96 price);
+    
+    event PriceOracleUpdated(address indexed oracle);
+    
+    event Paused(address indexed account);
+    
+    event Unpaused(address indexed account);
+    
+    event OwnershipTransferStarted(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+    
+    event OwnershipTransferred(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+    
     event FundsWithdrawn(
         address indexed owner,
         uint256 amount,
@@ -56,6 +310,48 @@ contract SpectrumMarket {
     error GrantExpired();
     error WithdrawFailed();
     error OnlyOwner();
+    error EmptyBatch();
+    error BatchTooLarge();
+    error PaymentMismatch();
+    error RefundFailed();
+    error InsufficientEscrow();
+    error NoRequest();
+    error RequestExpired();
+    error RequestPending();
+    error PriceAboveBid();
+    error GrantActive();
+    error DeviceFundedGrant();
+    error PayoutFailed();
+    error Reentrancy();
+    error InvalidLocation();
+    error ChannelAtCapacity();
+    error NotRegistered();
+    error ProviderNotActive();
+    error StakeTooLow();
+    error StakeLocked();
+    error GrantsPaused();
+    error NotPendingOwner();
+    error NothingToClaim();
+    error FeeTooHigh();
+    error NotPriceOracle();
+    error InvalidPrice();
+    
+    modifier nonReentrant() {
+        if (locked) revert Reentrancy();
+        locked = true;
+        _;
+        locked = false;
+    }
+    
+    // Grant-issuing calls: the market is live and the caller is a staked, active provider
+    modifier onlyActiveProvider() {
+        if (paused) revert GrantsPaused();
+        ProviderInfo memory info = providers[msg.sender];
+        if (info.status == ProviderStatus.None) revert NotRegistered();
+        if (info.status != ProviderStatus.Active) revert ProviderNotActive();
+        if (info.stake < minProviderStake) revert StakeTooLow();
+        _;
+    }
     
     constructor() {
         owner = msg.sender;
@@ -63,52 +359,428 @@ contract SpectrumMarket {
     
     /**
      * @notice Grant spectrum access to a device
+     * @dev Reverts with ChannelAtCapacity when the frequency is full in the device's
+     *      cell, and with GrantActive while another provider's grant is live
      * @param deviceId Unique identifier for the device (bytes32)
      * @param frequency RF frequency in MHz (e.g., 2400 for 2.4 GHz)
      * @param duration Access duration in seconds
+     * @param latitude Device latitude in microdegrees
+     * @param longitude Device longitude in microdegrees
      */
     function grantAccess(
         bytes32 deviceId,
         uint32 frequency,
-        uint32 duration
-    ) external payable {
-        if (msg.value < 0.001 ether) revert InsufficientPayment();
-        if (duration == 0 || duration > 3600) revert InvalidDuration(); // Max 1 hour
-        if (frequency == 0) revert InvalidFrequency();
+        uint32 duration,
+        int32 latitude,
+        int32 longitude
+    ) external payable onlyActiveProvider nonReentrant {
+        bytes4 failure = _validateGrant(msg.value, frequency, duration);
+        if (failure == bytes4(0)) failure = _validateHolder(deviceId);
+        if (failure == bytes4(0)) failure = _validateSlot(deviceId, frequency, latitude, longitude);
+        if (failure != bytes4(0)) _revertWith(failure);
         
-        uint96 amount = uint96(msg.value); // Safe: msg.value is always < 2^96
+        // Safe: msg.value is always < 2^96
+        _grant(deviceId, frequency, duration, uint96(msg.value), msg.sender, _channelCell(frequency, latitude, longitude));
+        totalCollected += msg.value;
+    }
+    
+    /**
+     * @notice Grant access to many devices in one transaction
+     * @dev msg.value must equal the sum of item payments. Invalid items are
+     *      skipped with GrantFailed and their payment is refunded to the caller.
+     * @param requests Grants to issue
+     * @return granted Per-item success flags, in request order
+     */
+    function batchGrantAccess(
+        GrantRequest[] calldata requests
+    ) external payable onlyActiveProvider nonReentrant returns (bool[] memory granted) {
+        _checkBatchSize(requests.length);
         
-        activeGrants[deviceId] = Grant({
-            provider: msg.sender,
-            paidAmount: amount,
-            frequency: frequency,
-            expiresAt: uint32(block.timestamp + duration) // Safe until year 2106
-        });
+        uint256 total;
+        for (uint256 i = 0; i < requests.length; i++) {
+            total += requests[i].payment;
+        }
+        if (total != msg.value) revert PaymentMismatch();
         
+        granted = new bool[](requests.length);
+        uint256 refund;
+        
+        for (uint256 i = 0; i < requests.length; i++) {
+            GrantRequest calldata request = requests[i];
+            bytes4 failure = _validateGrant(request.payment, request.frequency, request.duration);
+            if (failure == bytes4(0)) failure = _validateHolder(request.deviceId);
+            if (failure == bytes4(0)) {
+                failure = _validateSlot(request.deviceId, request.frequency, request.latitude, request.longitude);
+            }
+            
+            if (failure != bytes4(0)) {
+                refund += request.payment;
+                emit GrantFailed(request.deviceId, failure);
+                continue;
+            }
+            
+            _grant(
+                request.deviceId,
+                request.frequency,
+                request.duration,
+                request.payment,
+                msg.sender,
+                _channelCell(request.frequency, request.latitude, request.longitude)
+            );
+            granted[i] = true;
+        }
+        
+        totalCollected += msg.value - refund;
+        _sendRefund(refund);
+    }
+    
+    /**
+     * @notice Extend an active grant, paying for the extra time
+     * @dev The unused share of the previous payment carries over; the grant
+     *      may not run more than MAX_DURATION from now.
+     * @param deviceId Unique identifier for the device
+     * @param duration Seconds to add to the current expiry
+     */
+    function extendGrant(bytes32 deviceId, uint32 duration) external payable onlyActiveProvider nonReentrant {
+        bytes4 failure = _validateExtend(deviceId, duration, msg.value);
+        if (failure != bytes4(0)) _revertWith(failure);
+        
+        _extend(deviceId, duration, uint96(msg.value));
         totalCollected += msg.value;
+    }
+    
+    /**
+     * @notice Extend many grants in one transaction
+     * @dev msg.value must equal the sum of item payments. Invalid items are
+     *      skipped with ExtendFailed and their payment is refunded to the caller.
+     * @param requests Extensions to apply
+     * @return extended Per-item success flags, in request order
+     */
+    function batchExtendGrant(
+        ExtendRequest[] calldata requests
+    ) external payable onlyActiveProvider nonReentrant returns (bool[] memory extended) {
+        _checkBatchSize(requests.length);
         
-        emit AccessGranted(
-            deviceId,
-            frequency,
-            duration,
-            amount,
-            msg.sender,
-            block.timestamp
-        );
+        uint256 total;
+        for (uint256 i = 0; i < requests.length; i++) {
+            total += requests[i].payment;
+        }
+        if (total != msg.value) revert PaymentMismatch();
+        
+        extended = new bool[](requests.length);
+        uint256 refund;
+        
+        for (uint256 i = 0; i < requests.length; i++) {
+            ExtendRequest calldata request = requests[i];
+            bytes4 failure = _validateExtend(request.deviceId, request.duration, request.payment);
+            
+            if (failure != bytes4(0)) {
+                refund += request.payment;
+                emit ExtendFailed(request.deviceId, failure);
+                continue;
+            }
+            
+            _extend(request.deviceId, request.duration, request.payment);
+            extended[i] = true;
+        }
+        
+        totalCollected += msg.value - refund;
+        _sendRefund(refund);
     }
     
     /**
      * @notice Revoke spectrum access from a device
+     * @dev Refunds the unused share of paidAmount to whoever paid it
      * @param deviceId Unique identifier for the device
      */
-    function revokeAccess(bytes32 deviceId) external {
+    function revokeAccess(bytes32 deviceId) external nonReentrant {
+        bytes4 failure = _validateRevoke(deviceId);
+        if (failure != bytes4(0)) _revertWith(failure);
+        
+        _revoke(deviceId);
+    }
+    
+    /**
+     * @notice Revoke access from many devices in one transaction
+     * @dev Devices that cannot be revoked are skipped with RevokeFailed
+     * @param deviceIds Devices to revoke
+     * @return revoked Per-item success flags, in input order
+     */
+    function batchRevokeAccess(
+        bytes32[] calldata deviceIds
+    ) external nonReentrant returns (bool[] memory revoked) {
+        _checkBatchSize(deviceIds.length);
+        revoked = new bool[](deviceIds.length);
+        
+        for (uint256 i = 0; i < deviceIds.length; i++) {
+            bytes4 failure = _validateRevoke(deviceIds[i]);
+            
+            if (failure != bytes4(0)) {
+                emit RevokeFailed(deviceIds[i], failure);
+                continue;
+            }
+            
+            _revoke(deviceIds[i]);
+            revoked[i] = true;
+        }
+    }
+    
+    // ─── Device escrow and access requests ──────────────────────
+    
+    /**
+     * @notice Add funds to the caller's escrow
+     */
+    function depositEscrow() external payable {
+        escrowBalance[msg.sender] += msg.value;
+        totalEscrowed += msg.value;
+        
+        emit EscrowDeposited(msg.sender, msg.value);
+    }
+    
+    /**
+     * @notice Withdraw escrow that is not locked in a request
+     * @param amount Amount in wei
+     */
+    function withdrawEscrow(uint256 amount) external nonReentrant {
+        if (amount > escrowBalance[msg.sender]) revert InsufficientEscrow();
+        
+        escrowBalance[msg.sender] -= amount;
+        totalEscrowed -= amount;
+        _payout(msg.sender, amount);
+        
+        emit EscrowWithdrawn(msg.sender, amount);
+    }
+    
+    /**
+     * @notice Offer to pay up to `bid` for access, locking it from escrow
+     * @dev Replaces the caller's own open request, anyone's expired one, or
+     *      an open one with a strictly lower bid; a replaced bid is returned
+     *      to its requester's escrow
+     * @param deviceId Device that should get access
+     * @param frequency RF frequency in MHz
+     * @param duration Grant length in seconds once accepted
+     * @param bid Most the caller will pay (wei)
+     * @param ttl Seconds the request stays open
+     * @param latitude Device latitude in microdegrees
+     * @param longitude Device longitude in microdegrees
+     */
+    function requestAccess(
+        bytes32 deviceId,
+        uint32 frequency,
+        uint32 duration,
+        uint96 bid,
+        uint32 ttl,
+        int32 latitude,
+        int32 longitude
+    ) external {
+        bytes4 failure = _validateGrant(bid, frequency, duration);
+        if (failure == bytes4(0) && !_validLocation(latitude, longitude)) failure = InvalidLocation.selector;
+        if (failure != bytes4(0)) _revertWith(failure);
+        if (ttl == 0 || ttl > MAX_DURATION) revert InvalidDuration();
+        
+        AccessRequest memory existing = accessRequests[deviceId];
+        if (existing.requester != address(0)) {
+            if (
+                existing.requester != msg.sender &&
+                existing.expiresAt > block.timestamp &&
+                bid <= existing.bid
+            ) revert RequestPending();
+            escrowBalance[existing.requester] += existing.bid;
+        }
+        
+        if (bid > escrowBalance[msg.sender]) revert InsufficientEscrow();
+        escrowBalance[msg.sender] -= bid;
+        
+        uint32 expiresAt = uint32(block.timestamp + ttl);
+        accessRequests[deviceId] = AccessRequest({
+            requester: msg.sender,
+            bid: bid,
+            frequency: frequency,
+            duration: duration,
+            expiresAt: expiresAt,
+            latitude: latitude,
+            longitude: longitude
+        });
+        
+        emit AccessRequested(deviceId, msg.sender, frequency, duration, bid, expiresAt);
+    }
+    
+    /**
+     * @notice Withdraw the caller's open request, unlocking its bid
+     * @param deviceId Device the request was for
+     */
+    function cancelRequest(bytes32 deviceId) external {
+        AccessRequest memory request = accessRequests[deviceId];
+        if (request.requester != msg.sender) revert NoRequest();
+        
+        delete accessRequests[deviceId];
+        escrowBalance[msg.sender] += request.bid;
+        
+        emit RequestCancelled(deviceId, msg.sender);
+    }
+    
+    /**
+     * @notice Grant a device's open request, charging `price` from its bid
+     * @dev The rest of the bid returns to the requester's escrow. Payment
+     *      settles to the provider when the grant ends.
+     * @param deviceId Device whose request to accept
+     * @param price Amount charged, between the minimum payment and the bid
+     */
+    function acceptRequest(bytes32 deviceId, uint96 price) external onlyActiveProvider nonReentrant {
+        bytes4 failure = _validateAccept(deviceId, price);
+        if (failure != bytes4(0)) _revertWith(failure);
+        
+        _accept(deviceId, price);
+    }
+    
+    /**
+     * @notice Accept many requests in one transaction
+     * @dev Requests that cannot be accepted are skipped with AcceptFailed
+     * @param requests Devices and prices to accept
+     * @return accepted Per-item success flags, in request order
+     */
+    function batchAcceptRequests(
+        AcceptRequest[] calldata requests
+    ) external onlyActiveProvider nonReentrant returns (bool[] memory accepted) {
+        _checkBatchSize(requests.length);
+        accepted = new bool[](requests.length);
+        
+        for (uint256 i = 0; i < requests.length; i++) {
+            bytes4 failure = _validateAccept(requests[i].deviceId, requests[i].price);
+            
+            if (failure != bytes4(0)) {
+                emit AcceptFailed(requests[i].deviceId, failure);
+                continue;
+            }
+            
+            _accept(requests[i].deviceId, requests[i].price);
+            accepted[i] = true;
+        }
+    }
+    
+    /**
+     * @notice Pay out an expired device-funded grant to its provider
+     * @param deviceId Device whose grant has ended
+     */
+    function settleGrant(bytes32 deviceId) external nonReentrant {
         Grant memory grant = activeGrants[deviceId];
-        if (grant.provider != msg.sender) revert NotProvider();
-        if (grant.expiresAt <= block.timestamp) revert GrantExpired();
+        if (grant.expiresAt > block.timestamp) revert GrantActive();
         
+        _release(deviceId, grant.channelCell);
         delete activeGrants[deviceId];
+        _settle(deviceId, grant);
+    }
+    
+    // ─── Provider registry ──────────────────────────────────────
+    
+    /**
+     * @notice Register as a provider, or add to an existing stake
+     * @dev Registering again while exiting cancels the exit. A suspended
+     *      provider may top up but stays suspended.
+     */
+    function registerProvider() external payable {
+        ProviderInfo storage info = providers[msg.sender];
+        uint256 stake = info.stake + msg.value;
+        if (stake < minProviderStake) revert StakeTooLow();
         
-        emit AccessRevoked(deviceId, msg.sender, block.timestamp);
+        if (info.status == ProviderStatus.None) info.registeredAt = uint32(block.timestamp);
+        if (info.status != ProviderStatus.Suspended) info.status = ProviderStatus.Active;
+        info.stake = uint96(stake);
+        info.unlocksAt = 0;
+        totalStaked += msg.value;
+        
+        emit ProviderStaked(msg.sender, msg.value, stake);
+    }
+    
+    /**
+     * @notice Stop issuing grants and start the unbonding period
+     * @dev The stake unlocks once every grant the provider could have issued
+     *      has expired, leaving the owner time to slash for misconduct. A
+     *      suspended provider can't exit (and so re-register out of the
+     *      suspension) until the owner reinstates it.
+     */
+    function exitProvider() external {
+        ProviderInfo storage info = providers[msg.sender];
+        if (info.status == ProviderStatus.None) revert NotRegistered();
+        if (info.status != ProviderStatus.Active) revert ProviderNotActive();
+        
+        info.status = ProviderStatus.Exiting;
+        info.unlocksAt = uint32(block.timestamp + MAX_DURATION);
+        
+        emit ProviderExiting(msg.sender, info.unlocksAt);
+    }
+    
+    /**
+     * @notice Withdraw the stake after exiting and unbonding
+     */
+    function withdrawStake() external nonReentrant {
+        ProviderInfo memory info = providers[msg.sender];
+        if (info.status != ProviderStatus.Exiting || info.unlocksAt > block.timestamp) revert StakeLocked();
+        
+        delete providers[msg.sender];
+        totalStaked -= info.stake;
+        _payout(msg.sender, info.stake);
+        
+        emit StakeWithdrawn(msg.sender, info.stake);
+    }
+    
+    /**
+     * @notice Block a provider from issuing grants (owner only)
+     * @dev Grants already issued stay valid until they expire or are revoked
+     */
+    function suspendProvider(address provider) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        ProviderInfo storage info = providers[provider];
+        if (info.status != ProviderStatus.Active) revert ProviderNotActive();
+        
+        info.status = ProviderStatus.Suspended;
+        emit ProviderSuspended(provider);
+    }
+    
+    /**
+     * @notice Let a suspended provider issue grants again (owner only)
+     */
+    function reinstateProvider(address provider) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        ProviderInfo storage info = providers[provider];
+        if (info.status != ProviderStatus.Suspended) revert ProviderNotActive();
+        
+        info.status = ProviderStatus.Active;
+        emit ProviderReinstated(provider);
+    }
+    
+    /**
+     * @notice Take part of a provider's stake (owner only)
+     * @dev Slashed funds become withdrawable by the owner. Works on exiting
+     *      providers until they withdraw.
+     * @param provider Provider to slash
+     * @param amount Wei to take, capped at the remaining stake
+     */
+    function slashProvider(address provider, uint96 amount) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        ProviderInfo storage info = providers[provider];
+        if (info.status == ProviderStatus.None) revert NotRegistered();
+        
+        uint96 slashed = amount < info.stake ? amount : info.stake;
+        info.stake -= slashed;
+        totalStaked -= slashed;
+        protocolFees += slashed;
+        
+        emit ProviderSlashed(provider, slashed, info.stake);
+    }
+    
+    /**
+     * @notice Withdraw the caller's settled earnings
+     */
+    function claimEarnings() external nonReentrant {
+        uint256 amount = earnings[msg.sender];
+        if (amount == 0) revert NothingToClaim();
+        
+        earnings[msg.sender] = 0;
+        totalUnclaimed -= amount;
+        _payout(msg.sender, amount);
+        
+        emit EarningsClaimed(msg.sender, amount);
     }
     
     /**
@@ -130,6 +802,50 @@ contract SpectrumMarket {
         return activeGrants[deviceId];
     }
     
+    /**
+     * @notice Amount revokeAccess would refund right now
+     * @param deviceId Unique identifier for the device
+     * @return uint256 Unused share of paidAmount in wei
+     */
+    function refundableAmount(bytes32 deviceId) external view returns (uint256) {
+        return _refundable(activeGrants[deviceId]);
+    }
+    
+    /**
+     * @notice Get the open request for a device
+     * @param deviceId Unique identifier for the device
+     * @return AccessRequest struct (requester is zero if none)
+     */
+    function getRequest(bytes32 deviceId) external view returns (AccessRequest memory) {
+        return accessRequests[deviceId];
+    }
+    
+    /**
+     * @notice Active grants and capacity of a frequency in the cell containing a point
+     * @param frequency RF frequency in MHz
+     * @param latitude Latitude in microdegrees
+     * @param longitude Longitude in microdegrees
+     * @return active Grants currently live in the channel-cell
+     * @return capacity maxGrantsPerChannel
+     */
+    function channelOccupancy(
+        uint32 frequency,
+        int32 latitude,
+        int32 longitude
+    ) external view returns (uint256 active, uint256 capacity) {
+        return (_occupancy(_channelCell(frequency, latitude, longitude), bytes32(0)), maxGrantsPerChannel);
+    }
+    
+    /**
+     * @notice Lowest payment, bid or acceptance price allowed on a frequency
+     * @param frequency RF frequency in MHz
+     * @return uint256 Floor in wei
+     */
+    function minPrice(uint32 frequency) public view returns (uint256) {
+        uint96 price = frequencyMinPrice[frequency];
+        return price != 0 ? price : defaultMinPrice;
+    }
+    
     /**
      * @notice Get grant expiration timestamp
      * @param deviceId Unique identifier for the device
@@ -140,19 +856,125 @@ contract SpectrumMarket {
     }
     
     /**
-     * @notice Withdraw accumulated funds (owner only)
-     * @dev Critical: Allows recovery of funds paid by devices
+     * @notice Withdraw settled protocol revenue (owner only)
+     * @dev Payments of grants that have not settled yet stay in the contract
      */
     function withdraw() external {
         if (msg.sender != owner) revert OnlyOwner();
         
-        uint256 balance = address(this).balance;
-        if (balance == 0) return;
+        uint256 amount = protocolFees;
+        if (amount == 0) return;
+        protocolFees = 0;
         
-        (bool success, ) = owner.call{value: balance}("");
+        (bool success, ) = owner.call{value: amount}("");
         if (!success) revert WithdrawFailed();
         
-        emit FundsWithdrawn(owner, balance, block.timestamp);
+        emit FundsWithdrawn(owner, amount, block.timestamp);
+    }
+    
+    /**
+     * @notice Set the protocol share of device payments (owner only)
+     * @dev Applies to grants settled from now on
+     */
+    function setProtocolFee(uint16 feeBps) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        if (feeBps > MAX_PROTOCOL_FEE_BPS) revert FeeTooHigh();
+        
+        protocolFeeBps = feeBps;
+        emit ProtocolFeeUpdated(feeBps);
+    }
+    
+    /**
+     * @notice Set the stake required to issue grants (owner only)
+     * @dev Providers below a raised minimum must top up before their next grant
+     */
+    function setMinProviderStake(uint96 minStake) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        minProviderStake = minStake;
+        emit MinProviderStakeUpdated(minStake);
+    }
+    
+    /**
+     * @notice Set a payment floor (owner or price oracle)
+     * @dev Checked when a grant, extension, request or acceptance is made; live
+     *      grants and open requests are unaffected
+     * @param frequency RF frequency in MHz, or 0 for the default floor
+     * @param price Floor in wei; 0 makes a frequency use the default again.
+     *        The default itself can't be 0, or grants would be free.
+     */
+    function setMinPrice(uint32 frequency, uint96 price) external {
+        if (msg.sender != owner && msg.sender != priceOracle) revert NotPriceOracle();
+        if (frequency == 0) {
+            if (price == 0) revert InvalidPrice();
+            defaultMinPrice = price;
+        } else {
+            frequencyMinPrice[frequency] = price;
+        }
+        emit MinPriceUpdated(frequency, price);
+    }
+    
+    /**
+     * @notice Let an account set payment floors (owner only)
+     * @param oracle New price oracle, or zero to leave pricing to the owner
+     */
+    function setPriceOracle(address oracle) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        priceOracle = oracle;
+        emit PriceOracleUpdated(oracle);
+    }
+    
+    /**
+     * @notice Stop all new grants, extensions and acceptances (owner only)
+     */
+    function pause() external {
+        if (msg.sender != owner) revert OnlyOwner();
+        paused = true;
+        emit Paused(msg.sender);
+    }
+    
+    /**
+     * @notice Resume grants (owner only)
+     */
+    function unpause() external {
+        if (msg.sender != owner) revert OnlyOwner();
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+    
+    /**
+     * @notice Nominate a new owner; takes effect once they accept
+     * @param newOwner Nominee, or zero to cancel a pending transfer
+     */
+    function transferOwnership(address newOwner) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+    
+    /**
+     * @notice Become owner after being nominated with transferOwnership
+     */
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+    
+    /**
+     * @notice Set the cell size and per-channel grant limit
+     * @dev Live grants keep the cell they were issued in until they end
+     * @param newCellSize Cell side in microdegrees
+     * @param newMaxGrants Concurrent grants per frequency per cell
+     */
+    function setChannelLimits(uint32 newCellSize, uint16 newMaxGrants) external {
+        if (msg.sender != owner) revert OnlyOwner();
+        if (newCellSize == 0) revert InvalidLocation();
+        
+        cellSize = newCellSize;
+        maxGrantsPerChannel = newMaxGrants;
+        
+        emit ChannelLimitsUpdated(newCellSize, newMaxGrants);
     }
     
     /**
@@ -165,12 +987,337 @@ contract SpectrumMarket {
     
     /**
      * @notice Emergency withdrawal in case withdraw() fails
-     * @dev Only callable by owner
+     * @dev Only callable by owner. Takes protocol fees and any stray balance;
+     *      escrow, stakes, provider earnings and unsettled grant payments stay put.
      */
     function emergencyWithdraw() external {
         if (msg.sender != owner) revert OnlyOwner();
         
+        uint256 amount = address(this).balance - totalEscrowed - totalStaked - totalUnclaimed - totalGrantPayments;
+        protocolFees = 0;
+        
         // Force send using selfdestruct alternative (post-Cancun)
-        payable(owner).transfer(address(this).balance);
+        payable(owner).transfer(amount);
+        
+        emit FundsWithdrawn(owner, amount, block.timestamp);
+    }
+    
+    // ─── Internal ───────────────────────────────────────────────
+    
+    /**
+     * @dev Returns the selector of the error a grant would fail with, or 0
+     */
+    function _validateGrant(
+        uint256 payment,
+        uint32 frequency,
+        uint32 duration
+    ) internal view returns (bytes4) {
+        if (payment < minPrice(frequency)) return InsufficientPayment.selector;
+        if (duration == 0 || duration > MAX_DURATION) return InvalidDuration.selector; // Max 1 hour
+        if (frequency == 0) return InvalidFrequency.selector;
+        return bytes4(0);
+    }
+    
+    function _validateRevoke(bytes32 deviceId) internal view returns (bytes4) {
+        Grant memory grant = activeGrants[deviceId];
+        if (grant.provider != msg.sender) return NotProvider.selector;
+        if (grant.expiresAt <= block.timestamp) return GrantExpired.selector;
+        return bytes4(0);
+    }
+    
+    function _validateExtend(
+        bytes32 deviceId,
+        uint32 duration,
+        uint256 payment
+    ) internal view returns (bytes4) {
+        Grant memory grant = activeGrants[deviceId];
+        if (grant.provider != msg.sender) return NotProvider.selector;
+        if (grant.expiresAt <= block.timestamp) return GrantExpired.selector;
+        if (grant.payer != msg.sender) return DeviceFundedGrant.selector;
+        if (payment < minPrice(grant.frequency)) return InsufficientPayment.selector;
+        if (duration == 0 || grant.expiresAt + uint256(duration) > block.timestamp + MAX_DURATION) {
+            return InvalidDuration.selector;
+        }
+        return bytes4(0);
+    }
+    
+    function _validateAccept(bytes32 deviceId, uint96 price) internal view returns (bytes4) {
+        AccessRequest memory request = accessRequests[deviceId];
+        if (request.requester == address(0)) return NoRequest.selector;
+        if (request.expiresAt <= block.timestamp) return RequestExpired.selector;
+        if (price < minPrice(request.frequency)) return InsufficientPayment.selector;
+        if (price > request.bid) return PriceAboveBid.selector;
+        
+        bytes4 failure = _validateHolder(deviceId);
+        if (failure != bytes4(0)) return failure;
+        return _validateSlot(deviceId, request.frequency, request.latitude, request.longitude);
+    }
+    
+    /**
+     * @dev A live grant may only be replaced by the provider that issued it;
+     *      that provider re-granting or extending is fine
+     */
+    function _validateHolder(bytes32 deviceId) internal view returns (bytes4) {
+        Grant memory grant = activeGrants[deviceId];
+        if (grant.expiresAt > block.timestamp && grant.provider != msg.sender) return GrantActive.selector;
+        return bytes4(0);
+    }
+    
+    /**
+     * @dev Location range and channel-cell capacity; the device's own grant
+     *      never counts against it
+     */
+    function _validateSlot(
+        bytes32 deviceId,
+        uint32 frequency,
+        int32 latitude,
+        int32 longitude
+    ) internal view returns (bytes4) {
+        if (!_validLocation(latitude, longitude)) return InvalidLocation.selector;
+        if (_occupancy(_channelCell(frequency, latitude, longitude), deviceId) >= maxGrantsPerChannel) {
+            return ChannelAtCapacity.selector;
+        }
+        return bytes4(0);
+    }
+    
+    function _validLocation(int32 latitude, int32 longitude) internal pure returns (bool) {
+        return latitude >= -90_000_000 && latitude <= 90_000_000
+            && longitude >= -180_000_000 && longitude <= 180_000_000;
+    }
+    
+    function _channelCell(uint32 frequency, int32 latitude, int32 longitude) internal view returns (bytes32) {
+        return keccak256(abi.encode(frequency, _floorDiv(latitude, cellSize), _floorDiv(longitude, cellSize)));
+    }
+    
+    function _floorDiv(int32 value, uint32 size) internal pure returns (int256) {
+        int256 quotient = int256(value) / int256(uint256(size));
+        if (value < 0 && int256(value) % int256(uint256(size)) != 0) quotient -= 1;
+        return quotient;
+    }
+    
+    /**
+     * @dev Live grants in a channel-cell, not counting `exclude`
+     */
+    function _occupancy(bytes32 cell, bytes32 exclude) internal view returns (uint256 active) {
+        bytes32[] storage devices = cellGrants[cell];
+        for (uint256 i = 0; i < devices.length; i++) {
+            if (devices[i] != exclude && _occupies(devices[i], cell)) active++;
+        }
+    }
+    
+    function _occupies(bytes32 deviceId, bytes32 cell) internal view returns (bool) {
+        Grant storage grant = activeGrants[deviceId];
+        return grant.channelCell == cell && grant.expiresAt > block.timestamp;
+    }
+    
+    /**
+     * @dev Writes the grant; whatever grant it replaces is settled first
+     */
+    function _grant(
+        bytes32 deviceId,
+        uint32 frequency,
+        uint32 duration,
+        uint96 amount,
+        address payer,
+        bytes32 cell
+    ) internal {
+        Grant memory replaced = activeGrants[deviceId];
+        if (replaced.channelCell != cell) _release(deviceId, replaced.channelCell);
+        _occupy(deviceId, cell);
+        
+        activeGrants[deviceId] = Grant({
+            provider: msg.sender,
+            paidAmount: amount,
+            frequency: frequency,
+            expiresAt: uint32(block.timestamp + duration), // Safe until year 2106
+            grantedAt: uint32(block.timestamp),
+            payer: payer,
+            channelCell: cell
+        });
+        if (payer == msg.sender) totalGrantPayments += amount;
+        
+        _settle(deviceId, replaced);
+        
+        emit AccessGranted(
+            deviceId,
+            frequency,
+            duration,
+            amount,
+            msg.sender,
+            block.timestamp
+        );
+    }
+    
+    /**
+     * @dev Time already used is settled at the old rate; the carried-over
+     *      remainder plus the new payment cover the window from now on
+     */
+    function _extend(bytes32 deviceId, uint32 duration, uint96 amount) internal {
+        Grant storage grant = activeGrants[deviceId];
+        uint96 unused = uint96(_refundable(grant));
+        
+        // Time used so far is settled now; only the unused share carries over
+        uint96 used = grant.paidAmount - unused;
+        _credit(deviceId, grant, used);
+        totalGrantPayments = totalGrantPayments + amount - used;
+        
+        grant.paidAmount = unused + amount;
+        grant.grantedAt = uint32(block.timestamp);
+        grant.expiresAt += duration;
+        
+        emit GrantExtended(
+            deviceId,
+            duration,
+            amount,
+            grant.expiresAt,
+            msg.sender,
+            block.timestamp
+        );
+    }
+    
+    function _accept(bytes32 deviceId, uint96 price) internal {
+        AccessRequest memory request = accessRequests[deviceId];
+        delete accessRequests[deviceId];
+        
+        // The price stays escrowed with the grant; the rest of the bid is free again
+        escrowBalance[request.requester] += request.bid - price;
+        
+        _grant(
+            deviceId,
+            request.frequency,
+            request.duration,
+            price,
+            request.requester,
+            _channelCell(request.frequency, request.latitude, request.longitude)
+        );
+        
+        emit RequestAccepted(deviceId, request.requester, msg.sender, price);
+    }
+    
+    function _revoke(bytes32 deviceId) internal {
+        Grant memory grant = activeGrants[deviceId];
+        _release(deviceId, grant.channelCell);
+        delete activeGrants[deviceId];
+        
+        emit AccessRevoked(deviceId, msg.sender, block.timestamp);
+        _settle(deviceId, grant);
+    }
+    
+    /**
+     * @dev Add a device to a channel-cell, dropping entries whose grants have
+     *      ended or moved so the list stays within maxGrantsPerChannel
+     */
+    function _occupy(bytes32 deviceId, bytes32 cell) internal {
+        bytes32[] storage devices = cellGrants[cell];
+        for (uint256 i = devices.length; i > 0; i--) {
+            if (devices[i - 1] == deviceId || !_occupies(devices[i - 1], cell)) {
+                devices[i - 1] = devices[devices.length - 1];
+                devices.pop();
+            }
+        }
+        devices.push(deviceId);
+    }
+    
+    function _release(bytes32 deviceId, bytes32 cell) internal {
+        if (cell == bytes32(0)) return;
+        bytes32[] storage devices = cellGrants[cell];
+        for (uint256 i = 0; i < devices.length; i++) {
+            if (devices[i] == deviceId) {
+                devices[i] = devices[devices.length - 1];
+                devices.pop();
+                return;
+            }
+        }
+    }
+    
+    /**
+     * @dev Close out the payment of a grant that has just ended (or been
+     *      replaced). The unused share goes back to the payer: straight to a
+     *      provider that paid (or into its earnings if the transfer fails, so
+     *      one provider's refund can't revert a batch), or into a device's
+     *      escrow. The used share is credited by _credit.
+     */
+    function _settle(bytes32 deviceId, Grant memory grant) internal {
+        if (grant.paidAmount == 0) return;
+        
+        uint256 unused = _refundable(grant);
+        uint256 used = grant.paidAmount - unused;
+        if (unused > 0) emit GrantRefunded(deviceId, grant.payer, unused);
+        
+        if (grant.payer != grant.provider) {
+            escrowBalance[grant.payer] += unused;
+            totalEscrowed -= used;
+        }
+        _credit(deviceId, grant, used);
+        
+        if (grant.payer == grant.provider) {
+            totalGrantPayments -= grant.paidAmount;
+            totalCollected -= unused;
+            _payoutOrCredit(grant.provider, unused);
+        }
+    }
+    
+    /**
+     * @dev Book the used share of a payment. Device payments are split between
+     *      the provider's earnings and the protocol fee; a provider paying for
+     *      its own grants is buying from the protocol, so all of it is fees.
+     */
+    function _credit(bytes32 deviceId, Grant memory grant, uint256 used) internal {
+        if (used == 0) return;
+        
+        uint256 fee = grant.payer == grant.provider ? used : used * protocolFeeBps / 10_000;
+        uint256 share = used - fee;
+        
+        protocolFees += fee;
+        earnings[grant.provider] += share;
+        totalUnclaimed += share;
+        
+        emit RevenueSettled(deviceId, grant.provider, share, fee);
+    }
+    
+    /**
+     * @dev Unused share of paidAmount, pro rata over [grantedAt, expiresAt]
+     */
+    function _refundable(Grant memory grant) internal view returns (uint256) {
+        if (grant.expiresAt <= block.timestamp) return 0;
+        uint256 window = grant.expiresAt - grant.grantedAt;
+        return uint256(grant.paidAmount) * (grant.expiresAt - block.timestamp) / window;
+    }
+    
+    function _sendRefund(uint256 amount) internal {
+        if (amount == 0) return;
+        (bool success, ) = msg.sender.call{value: amount}("");
+        if (!success) revert RefundFailed();
+    }
+    
+    function _payout(address to, uint256 amount) internal {
+        if (amount == 0) return;
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert PayoutFailed();
+    }
+    
+    function _payoutOrCredit(address to, uint256 amount) internal {
+        if (amount == 0) return;
+        (bool success, ) = to.call{value: amount}("");
+        if (success) return;
+        
+        earnings[to] += amount;
+        totalUnclaimed += amount;
+        emit PayoutDeferred(to, amount);
+    }
+    
+    function _checkBatchSize(uint256 size) internal pure {
+        if (size == 0) revert EmptyBatch();
+        if (size > MAX_BATCH_SIZE) revert BatchTooLarge();
+    }
+    
+    /**
+     * @dev Revert with a parameterless custom error given its selector
+     */
+    function _revertWith(bytes4 selector) internal pure {
+        assembly {
+            mstore(0, selector)
+            revert(0, 4)
+        }
     }
 }
@@ -0,0 +1,140 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { existsSync, readFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { fileURLToPath } from 'url'
+import { createPublicClient, createWalletClient, defineChain, http } from 'viem'
+import { mnemonicToAccount } from 'viem/accounts'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+const CONTRACTS_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '../../contracts')
+const HARDHAT_BIN = resolve(CONTRACTS_DIR, 'node_modules/.bin/hardhat')
+const ARTIFACT = resolve(CONTRACTS_DIR, 'artifacts/contracts/SpectrumMarket.sol/SpectrumMarket.json')
+
+// Well-known Hardhat node mnemonic; every account starts with 10000 ETH
+const HARDHAT_MNEMONIC = 'test test test test test test test test test test test junk'
+
+export const RPC_URL = process.env.DEVNET_RPC_URL || 'http://127.0.0.1:8545'
+
+export const hardhatLocal = defineChain({
+  id: 31337,
+  name: 'Hardhat Local',
+  network: 'hardhat',
+  nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+  rpcUrls: {
+    default: { http: [RPC_URL] }
+  },
+  testnet: true
+})
+
+export const publicClient = createPublicClient({
+  chain: hardhatLocal,
+  transport: http(RPC_URL),
+  pollingInterval: 250
+})
+
+/**
+ * Wallet for a funded Hardhat account (0 = provider, 1.. = devices)
+ */
+export function devnetWallet(index: number) {
+  return createWalletClient({
+    account: mnemonicToAccount(HARDHAT_MNEMONIC, { addressIndex: index }),
+    chain: hardhatLocal,
+    transport: http(RPC_URL)
+  })
+}
+
+export interface LocalChain {
+  /** Set when this process spawned the node */
+  node?: ChildProcess
+  stop(): void
+}
+
+/**
+ * Use the node at RPC_URL, or spawn `hardhat node` when nothing is listening
+ */
+export async function startLocalChain(timeoutMs = 30000): Promise<LocalChain> {
+  if (await isReachable()) {
+    console.log(`⛓️  Using running node at ${RPC_URL}`)
+    return { stop: () => {} }
+  }
+  
+  if (!existsSync(HARDHAT_BIN)) {
+    throw new Error(`No node at ${RPC_URL} and Hardhat is not installed in packages/contracts`)
+  }
+  
+  // Spawn the binary directly (not via npx) so stop() kills the node itself
+  console.log('⛓️  Starting Hardhat node...')
+  const node = spawn(HARDHAT_BIN, ['node'], { cwd: CONTRACTS_DIR, stdio: 'ignore' })
+  const stop = () => {
+    if (node.exitCode === null) node.kill()
+  }
+  
+  const deadline = Date.now() + timeoutMs
+  while (!(await isReachable())) {
+    if (node.exitCode !== null) {
+      throw new Error(`hardhat node exited with code ${node.exitCode}`)
+    }
+    if (Date.now() > deadline) {
+      stop()
+      throw new Error(`Hardhat node did not come up at ${RPC_URL} within ${timeoutMs}ms`)
+    }
+    await new Promise(resolve => setTimeout(resolve, 250))
+  }
+  
+  console.log(`✅ Hardhat node listening at ${RPC_URL}`)
+  return { node, stop }
+}
+
+/**
+ * Deploy SpectrumMarket from the Hardhat build artifact
+ */
+export async function deploySpectrumMarket(): Promise<`0x${string}`> {
+  if (!existsSync(ARTIFACT)) {
+    throw new Error(`Missing ${ARTIFACT}; run "npm run compile" in packages/contracts first`)
+  }
+  const { bytecode } = JSON.parse(readFileSync(ARTIFACT, 'utf8')) as { bytecode: `0x${string}` }
+  
+  const deployer = devnetWallet(0)
+  const hash = await deployer.deployContract({
+    abi: SpectrumMarketABI,
+    bytecode
+  })
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (!receipt.contractAddress) {
+    throw new Error(`SpectrumMarket deployment failed (tx ${hash})`)
+  }
+  
+  console.log(`✅ SpectrumMarket deployed to: ${receipt.contractAddress}`)
+  return receipt.contractAddress
+}
+
+/**
+ * Stake the market minimum from a wallet so it may issue grants
+ */
+export async function registerProvider(
+  contractAddress: `0x${string}`,
+  wallet: ReturnType<typeof devnetWallet>
+) {
+  const minStake = await publicClient.readContract({
+    address: contractAddress,
+    abi: SpectrumMarketABI,
+    functionName: 'minProviderStake'
+  })
+  const hash = await wallet.writeContract({
+    address: contractAddress,
+    abi: SpectrumMarketABI,
+    functionName: 'registerProvider',
+    value: minStake
+  })
+  await publicClient.waitForTransactionReceipt({ hash })
+  console.log(`✅ Provider ${wallet.account.address} registered`)
+}
+
+async function isReachable(): Promise<boolean> {
+  try {
+    await publicClient.getChainId()
+    return true
+  } catch {
+    return false
+  }
+}
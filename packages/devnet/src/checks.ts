@@ -0,0 +1,314 @@
+import assert from 'node:assert/strict'
+import { parseEther, toHex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import type { SignalData } from '../../../shared/schema.js'
+import {
+  FieldRangeError,
+  MalformedRecordError,
+  decodeSignalData,
+  encodeSignalData,
+  versionOf
+} from '../../../shared/codec.js'
+import { recoverSignalSigner, signSignalData } from '../../../shared/signing.js'
+import { PolicyEngine } from '../../provider/src/policy.js'
+import { ChannelAuction, type SealedBid } from '../../provider/src/auction.js'
+import { Hysteresis } from '../../provider/src/hysteresis.js'
+import { AnomalyDetector } from '../../provider/src/anomaly.js'
+import { LogDistanceModel, channelCoupling, distanceForLoss, sumPower } from '../../simulator/src/propagation.js'
+
+// Focused checks of the pure decision and encoding modules; no chain needed
+
+const DEVICE = toHex('device-1', { size: 32 })
+const OTHER = toHex('device-2', { size: 32 })
+const T0 = 1_700_000_000_000
+
+function reading(overrides: Partial<SignalData> = {}): SignalData {
+  return {
+    timestamp: T0,
+    deviceId: DEVICE,
+    frequency: 2400,
+    snr: 12,
+    latitude: 31083000,
+    longitude: 77173000,
+    interferenceLevel: 0,
+    bidPrice: parseEther('0.001'),
+    ...overrides
+  }
+}
+
+async function check(description: string, run: () => void | Promise<void>) {
+  await run()
+  console.log(`✔ ${description}`)
+}
+
+async function policy() {
+  console.log('\n── Policy ──')
+
+  await check('the first matching rule decides; invalid rules are refused', () => {
+    const engine = new PolicyEngine({
+      defaults: { duration: 30, payment: '0.002' },
+      rules: [
+        { name: 'denied', when: { devices: [OTHER] }, action: 'ignore' },
+        { name: 'noisy', when: { minInterference: 3 }, action: 'revoke' },
+        {
+          name: 'local',
+          when: {
+            frequencies: [2400],
+            area: { minLatitude: 31000000, maxLatitude: 31100000, minLongitude: 77100000, maxLongitude: 77200000 }
+          },
+          action: 'grant',
+          duration: 60
+        }
+      ]
+    })
+    assert.deepEqual(engine.evaluate(reading()), { action: 'grant', duration: 60, payment: parseEther('0.002'), rule: 'local' })
+    assert.equal(engine.evaluate(reading({ deviceId: OTHER })).rule, 'denied')
+    assert.equal(engine.evaluate(reading({ interferenceLevel: 4 })).rule, 'noisy')
+    assert.deepEqual(
+      engine.evaluate(reading({ frequency: 5800 })),
+      { action: 'ignore', duration: 30, payment: parseEther('0.002'), rule: 'fallback' }
+    )
+    assert.throws(() => new PolicyEngine({ rules: [{ name: 'bad', action: 'allow' as 'grant' }] }), /unknown action/)
+    assert.throws(() => new PolicyEngine({ rules: [{ name: 'long', action: 'grant', duration: 3601 }] }), /duration/)
+  })
+
+  await check('min-SNR rules grant holders snrHysteresis dB below the threshold', () => {
+    const engine = PolicyEngine.minSnr(10)
+    assert.equal(engine.evaluate(reading({ snr: 10 })).action, 'grant')
+    assert.equal(engine.evaluate(reading({ snr: 9 })).action, 'revoke')
+    assert.equal(engine.evaluate(reading({ snr: 8 }), 2).action, 'grant')
+    assert.equal(engine.evaluate(reading({ snr: 7 }), 2).action, 'revoke')
+  })
+
+  await check('max-SNR grant rules let holders run snrHysteresis dB above the bound', () => {
+    const engine = new PolicyEngine({
+      rules: [{ name: 'quiet-only', when: { maxSnr: 20 }, action: 'grant' }],
+      fallback: 'revoke'
+    })
+    assert.equal(engine.evaluate(reading({ snr: 21 })).action, 'revoke')
+    assert.equal(engine.evaluate(reading({ snr: 22 }), 2).action, 'grant')
+    assert.equal(engine.evaluate(reading({ snr: 23 }), 2).action, 'revoke')
+  })
+
+  await check('max-SNR revoke rules reach holders only snrHysteresis dB further down', () => {
+    const engine = new PolicyEngine({
+      rules: [
+        { name: 'too-weak', when: { maxSnr: 5 }, action: 'revoke' },
+        { name: 'rest', action: 'grant' }
+      ]
+    })
+    assert.equal(engine.evaluate(reading({ snr: 5 })).rule, 'too-weak')
+    assert.equal(engine.evaluate(reading({ snr: 5 }), 2).rule, 'rest')
+    assert.equal(engine.evaluate(reading({ snr: 3 }), 2).rule, 'too-weak')
+  })
+
+  await check('payments are lifted to the chain floor of their frequency', () => {
+    const engine = new PolicyEngine({
+      defaults: { payment: '0.0005' },
+      rules: [{ name: 'strong', when: { minSnr: 10 }, action: 'grant', payment: '0.003' }],
+      fallback: 'extend'
+    })
+    assert.equal(engine.evaluate(reading()).payment, parseEther('0.003'))
+    assert.equal(engine.evaluate(reading({ snr: 1 })).payment, parseEther('0.0005'))
+
+    engine.setFloor(2400, parseEther('0.002'))
+    assert.equal(engine.evaluate(reading()).payment, parseEther('0.003'))
+    assert.equal(engine.evaluate(reading({ snr: 1 })).payment, parseEther('0.002'))
+    assert.equal(engine.evaluate(reading({ snr: 1, frequency: 5800 })).payment, parseEther('0.0005'))
+    assert.throws(() => new PolicyEngine({ rules: [{ name: 'free', action: 'grant', payment: '0' }] }), /payment/)
+  })
+}
+
+async function hysteresis() {
+  console.log('\n── Hysteresis ──')
+
+  await check('readings are smoothed per device', () => {
+    const damper = new Hysteresis({ smoothing: 0.5, minHoldMs: 0, maxChanges: 10, changeWindowMs: 1000 })
+    assert.equal(damper.smooth(reading({ snr: 12 })).snr, 12)
+    assert.equal(damper.smooth(reading({ snr: 8, interferenceLevel: 3 })).snr, 10)
+    assert.equal(damper.smooth(reading({ deviceId: OTHER, snr: 4 })).snr, 4)
+    assert.throws(() => new Hysteresis({ smoothing: 0, minHoldMs: 0, maxChanges: 1, changeWindowMs: 1 }))
+  })
+
+  await check('access changes respect the hold time and the per-window cap', () => {
+    const damper = new Hysteresis({ smoothing: 1, minHoldMs: 1000, maxChanges: 2, changeWindowMs: 10000 })
+    assert.equal(damper.canChange(DEVICE, 0), true)
+    damper.recordChange(DEVICE, 0)
+    assert.equal(damper.canChange(DEVICE, 999), false)
+    assert.equal(damper.canChange(DEVICE, 1000), true)
+    damper.recordChange(DEVICE, 1000)
+    assert.equal(damper.canChange(DEVICE, 5000), false)
+    assert.equal(damper.canChange(DEVICE, 10001), true)
+    assert.equal(damper.canChange(OTHER, 1), true)
+  })
+}
+
+async function auction() {
+  console.log('\n── Auction ──')
+  const grant = PolicyEngine.minSnr(0).evaluate(reading())
+  const bid = (deviceId: `0x${string}`, bidPrice: string): SealedBid => ({
+    deviceId,
+    frequency: 2400,
+    bidPrice: parseEther(bidPrice),
+    interferenceLevel: 0,
+    decision: grant
+  })
+
+  await check('tied bids go to the earlier bidder at the tied price', () => {
+    const market = new ChannelAuction({ reservePrice: parseEther('0.001'), defaultCapacity: 1 })
+    market.submit(bid(DEVICE, '0.002'))
+    market.submit(bid(OTHER, '0.002'))
+    const [result] = market.settle()
+    assert.deepEqual(result.winners.map(w => w.deviceId), [DEVICE])
+    assert.deepEqual(result.losers, [{ deviceId: OTHER, bidPrice: parseEther('0.002'), reason: 'outbid' }])
+    assert.equal(result.clearingPrice, parseEther('0.002'))
+    assert.equal(market.pendingBids, 0)
+  })
+
+  await check('a resubmitted bid loses its place in a tie', () => {
+    const market = new ChannelAuction({ reservePrice: parseEther('0.001'), defaultCapacity: 1 })
+    market.submit(bid(DEVICE, '0.002'))
+    market.submit(bid(OTHER, '0.002'))
+    market.submit(bid(DEVICE, '0.002'))
+    assert.deepEqual(market.settle()[0].winners.map(w => w.deviceId), [OTHER])
+  })
+
+  await check('winners pay the larger of the clearing price and their policy payment', () => {
+    const market = new ChannelAuction({ reservePrice: parseEther('0.001'), defaultCapacity: 2 })
+    market.submit({ ...bid(DEVICE, '0.005'), decision: { ...grant, payment: parseEther('0.004') } })
+    market.submit(bid(OTHER, '0.0005'))
+    const [result] = market.settle(new Map([[2400, parseEther('0.0015')]]))
+    assert.equal(result.reservePrice, parseEther('0.0015'))
+    assert.equal(result.clearingPrice, parseEther('0.0015'))
+    assert.deepEqual(result.winners.map(w => w.payment), [parseEther('0.004')])
+    assert.deepEqual(result.losers.map(l => l.reason), ['below-reserve'])
+  })
+
+  await check('channel capacities parse and override the default', () => {
+    const capacities = ChannelAuction.parseCapacities('2400:3, 5800:0')
+    const market = new ChannelAuction({ reservePrice: 0n, defaultCapacity: 1, capacities })
+    assert.equal(market.capacityOf(2400), 3)
+    assert.equal(market.capacityOf(5800), 0)
+    assert.equal(market.capacityOf(900), 1)
+    assert.throws(() => ChannelAuction.parseCapacities('2400:-1'), /Invalid channel capacity/)
+  })
+}
+
+async function anomaly() {
+  console.log('\n── Anomaly detection ──')
+  const config = {
+    peerRadius: 10000,
+    peerWindowMs: 5000,
+    minPeers: 2,
+    maxPeerSnrDeviation: 6,
+    maxPeerInterferenceDeviation: 2,
+    maxSnrJump: 10,
+    maxClockSkewMs: 2000,
+    stuckReadings: 3,
+    trustPenalty: 0.25,
+    trustRecovery: 0.05
+  }
+
+  await check('replayed and future-dated readings are dropped', () => {
+    const detector = new AnomalyDetector(config)
+    assert.deepEqual(detector.inspect(reading(), T0), { anomalies: [], trust: 1, drop: false })
+    assert.deepEqual(detector.inspect(reading({ snr: 13 }), T0 + 100), { anomalies: ['replay'], trust: 0.75, drop: true })
+    const skewed = detector.inspect(reading({ timestamp: T0 + 2001, snr: 14 }), T0)
+    assert.deepEqual(skewed.anomalies, ['skew'])
+    assert.equal(skewed.drop, true)
+  })
+
+  await check('jumps and stuck readings cost trust, clean ones earn it back', () => {
+    const detector = new AnomalyDetector(config)
+    detector.inspect(reading({ snr: 20 }), T0)
+    assert.deepEqual(detector.inspect(reading({ timestamp: T0 + 500, snr: 9 }), T0 + 500).anomalies, ['jump'])
+    assert.deepEqual(detector.inspect(reading({ timestamp: T0 + 2000, snr: 9 }), T0 + 2000).anomalies, [])
+    assert.deepEqual(detector.inspect(reading({ timestamp: T0 + 3000, snr: 9 }), T0 + 3000).anomalies, ['stuck'])
+    assert.equal(detector.trustOf(DEVICE), 0.55)
+    assert.equal(detector.trustOf(OTHER), 1)
+  })
+
+  await check('a device far from its peers\' median is flagged', () => {
+    const detector = new AnomalyDetector(config)
+    detector.inspect(reading({ deviceId: toHex('peer-1', { size: 32 }), snr: 20 }), T0)
+    detector.inspect(reading({ deviceId: toHex('peer-2', { size: 32 }), snr: 22 }), T0)
+    assert.deepEqual(detector.inspect(reading({ snr: 14 }), T0).anomalies, ['peer-snr'])
+    assert.deepEqual(detector.inspect(reading({ deviceId: OTHER, snr: 18, frequency: 5800 }), T0).anomalies, [])
+  })
+}
+
+async function codec() {
+  console.log('\n── Signal codec ──')
+  const rf = { rssi: -60, noiseFloor: -90, bandwidth: 20000, txPower: 20, channelOccupancy: 35 }
+
+  await check('v1, v2 and v3 records round-trip through hex', async () => {
+    const v1 = reading({ snr: -3, latitude: -33868800, bidPrice: 2n ** 200n })
+    const v2 = reading({ rf })
+    const account = privateKeyToAccount(generatePrivateKey())
+    const domain = { chainId: 31337, verifyingContract: '0x5FbDB2315678afecb367f032d93F642f64180aa3' } as const
+    const v3 = await signSignalData(account, reading({ rf }), domain)
+
+    for (const [version, data] of [[1, v1], [2, v2], [3, v3]] as const) {
+      assert.equal(versionOf(data), version)
+      assert.deepEqual(decodeSignalData(encodeSignalData(data), version), data)
+    }
+    assert.equal(await recoverSignalSigner(decodeSignalData(encodeSignalData(v3), 3), domain), account.address)
+  })
+
+  await check('records missing their version\'s fields or out of range are refused', () => {
+    assert.throws(() => encodeSignalData(reading(), 2), MalformedRecordError)
+    assert.throws(() => encodeSignalData(reading({ rf }), 3), MalformedRecordError)
+    assert.throws(() => encodeSignalData(reading({ interferenceLevel: 6 })), FieldRangeError)
+    assert.throws(() => encodeSignalData(reading({ rf: { ...rf, noiseFloor: 1 } })), FieldRangeError)
+    assert.throws(() => decodeSignalData([{ name: 'snr', value: 1 }]), MalformedRecordError)
+  })
+}
+
+async function propagation() {
+  console.log('\n── Propagation ──')
+  const channel = { frequency: 2400, bandwidth: 20000 }
+
+  await check('channel coupling across overlap, the band edge and beyond', () => {
+    assert.equal(channelCoupling(channel, channel), 0)
+    assert.equal(channelCoupling(channel, { frequency: 2405, bandwidth: 5000 }), 0)
+    assert.ok(Math.abs(channelCoupling(channel, { frequency: 2400, bandwidth: 40000 }) + 3.0103) < 1e-3)
+    assert.ok(Math.abs(channelCoupling(channel, { frequency: 2415, bandwidth: 20000 }) + 6.0206) < 1e-3)
+    // Edges touching, and gaps short of one channel width, are adjacent
+    assert.equal(channelCoupling(channel, { frequency: 2420, bandwidth: 20000 }), -30)
+    assert.equal(channelCoupling(channel, { frequency: 2380, bandwidth: 20000 }), -30)
+    assert.equal(channelCoupling(channel, { frequency: 2439, bandwidth: 20000 }), -30)
+    assert.equal(channelCoupling(channel, { frequency: 2440, bandwidth: 20000 }), -Infinity)
+  })
+
+  await check('distanceForLoss inverts the path loss model', () => {
+    const model = new LogDistanceModel()
+    for (const loss of [50, 80, 110]) {
+      assert.ok(Math.abs(model.pathLoss(distanceForLoss(model, loss, 2400), 2400) - loss) < 1e-6)
+    }
+    assert.ok(model.pathLoss(100, 2400) > model.pathLoss(10, 2400))
+    assert.equal(model.pathLoss(0.1, 2400), model.pathLoss(1, 2400))
+  })
+
+  await check('powers add in linear terms', () => {
+    assert.equal(sumPower([]), -Infinity)
+    assert.ok(Math.abs(sumPower([-90, -90]) + 86.9897) < 1e-3)
+    assert.equal(sumPower([-50, -Infinity]), -50)
+  })
+}
+
+async function main() {
+  await policy()
+  await hysteresis()
+  await auction()
+  await anomaly()
+  await codec()
+  await propagation()
+  console.log('\n✅ Module checks passed')
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌', error)
+    process.exit(1)
+  })
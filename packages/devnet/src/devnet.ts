@@ -0,0 +1,196 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseEther, toHex, zeroAddress, type PublicClient } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { zeroBytes32 } from '@somnia-chain/streams'
+import {
+  INTERFERENCE_MAP_SCHEMA_ID,
+  interferenceMapSchema,
+  SIGNAL_SCHEMAS,
+  type SchemaVersion
+} from '../../../shared/schema.js'
+import { loadConfig, type ProviderConfig } from '../../provider/src/config.js'
+import { SpectrumProvider } from '../../provider/src/provider.js'
+import { IoTDevice, type DeviceProfile, type GrantControl, type MarketAccess } from '../../simulator/src/device.js'
+import { MemoryStreams } from './memory-streams.js'
+import {
+  deploySpectrumMarket,
+  devnetWallet,
+  hardhatLocal,
+  publicClient,
+  registerProvider,
+  startLocalChain
+} from './chain.js'
+
+export interface DevnetOptions {
+  devices: number
+  schemaVersion: SchemaVersion
+  /** Per-device SNR, channel, location and noise source, e.g. a Scenario's; device i gets profiles[i - 1] */
+  profiles?: DeviceProfile[]
+  /** Devices pay for access from escrow; otherwise the provider self-funds grants */
+  deviceFunded?: boolean
+  /** Overrides on top of the provider's env-derived config */
+  provider?: Partial<ProviderConfig>
+}
+
+export interface Devnet {
+  contractAddress: `0x${string}`
+  schemaIds: Record<SchemaVersion, `0x${string}`>
+  mapSchemaId: `0x${string}`
+  /** What the provider was started with; its recordFile holds every reading it acted on */
+  config: ProviderConfig
+  streams: MemoryStreams
+  provider: SpectrumProvider
+  devices: IoTDevice[]
+  stop(): void
+}
+
+/**
+ * Bring up a local chain, SpectrumMarket, in-memory Streams, the provider and
+ * a fleet of devices publishing with their own Hardhat accounts. Nothing is
+ * started streaming; call `device.startStreaming()` when ready.
+ */
+export async function startDevnet(options: DevnetOptions): Promise<Devnet> {
+  const chain = await startLocalChain()
+  const workDir = mkdtempSync(join(tmpdir(), 'ethersignal-devnet-'))
+  
+  try {
+    const contractAddress = await deploySpectrumMarket()
+    const streams = new MemoryStreams()
+    const schemaIds = await registerSchemas(streams)
+    const mapSchemaId = await registerMapSchema(streams)
+    
+    // Short grants so renewals and re-requests happen within a test run
+    const market: MarketAccess | undefined = options.deviceFunded ? {
+      contract: contractAddress,
+      escrow: parseEther('0.05'),
+      requestDuration: 10,
+      requestTtl: 10,
+      renewBeforeMs: 3000
+    } : undefined
+    
+    // Devices obey their grants; back-offs are short for the same reason
+    const control: GrantControl = {
+      contract: contractAddress,
+      channels: [2400, 5800],
+      backoffMs: 2000,
+      maxBackoffMs: 8000,
+      bidStepPercent: 50,
+      maxBidMultiplier: 4,
+      switchAfterRevokes: 3,
+      resyncMs: 1000
+    }
+    
+    // Each device signs v3 readings with its own throwaway key
+    const domain = { chainId: hardhatLocal.id, verifyingContract: contractAddress }
+    
+    const devices: IoTDevice[] = []
+    for (let i = 1; i <= options.devices; i++) {
+      const wallet = devnetWallet(i)
+      devices.push(new IoTDevice(
+        i,
+        publicClient,
+        wallet,
+        schemaIds[options.schemaVersion],
+        options.schemaVersion,
+        streams.client(wallet.account.address),
+        market,
+        control,
+        { account: privateKeyToAccount(generatePrivateKey()), domain },
+        options.profiles?.[i - 1]
+      ))
+    }
+    
+    const deviceRegistryFile = join(workDir, 'devices.json')
+    writeFileSync(deviceRegistryFile, JSON.stringify({
+      devices: Object.fromEntries(
+        devices.map(device => [device.hexId, { publisher: device.publisherAddress, signer: device.signerAddress }])
+      )
+    }, null, 2) + '\n')
+    
+    const providerWallet = devnetWallet(0)
+    await registerProvider(contractAddress, providerWallet)
+    const config: ProviderConfig = {
+      ...loadConfig(process.env),
+      contractAddress,
+      schemaId: schemaIds[1],
+      schemaIdV2: schemaIds[2],
+      schemaIdV3: schemaIds[3],
+      interferenceMapSchemaId: mapSchemaId,
+      mapWindowMs: 10000,
+      mapPublishIntervalMs: 2000,
+      publisherAddress: undefined,
+      deviceRegistryFile,
+      stateFile: join(workDir, 'provider-state.ndjson'),
+      recordFile: join(workDir, 'readings.ndjson'),
+      auctionIntervalMs: 1000,
+      renewMarginMs: 3000,
+      minHoldMs: 2000,
+      selfFundedGrants: !options.deviceFunded,
+      requestRefreshMs: 500,
+      ingestFallbackMs: 500,
+      txPollIntervalMs: 250,
+      reconcileFromBlock: 0n,
+      explorerUrl: undefined,
+      ...options.provider
+    }
+    const provider = new SpectrumProvider(config, {
+      publicClient: publicClient as PublicClient,
+      walletClient: providerWallet,
+      streams: streams.client(providerWallet.account.address)
+    })
+    
+    return {
+      contractAddress,
+      schemaIds,
+      mapSchemaId,
+      config,
+      streams,
+      provider,
+      devices,
+      stop() {
+        devices.forEach(device => device.stop())
+        provider.stop()
+        chain.stop()
+        rmSync(workDir, { recursive: true, force: true })
+      }
+    }
+  } catch (error) {
+    chain.stop()
+    rmSync(workDir, { recursive: true, force: true })
+    throw error
+  }
+}
+
+/**
+ * Register every schema version, parents first, as register-schema does on testnet
+ */
+async function registerSchemas(streams: MemoryStreams): Promise<Record<SchemaVersion, `0x${string}`>> {
+  const admin = streams.client(zeroAddress)
+  const ids = {} as Record<SchemaVersion, `0x${string}`>
+  
+  for (const definition of Object.values(SIGNAL_SCHEMAS)) {
+    await admin.registerDataSchemas([{
+      id: toHex(definition.id, { size: 32 }),
+      schema: definition.schema,
+      parentSchemaId: definition.parent ? ids[definition.parent] : zeroBytes32 as `0x${string}`
+    }])
+    ids[definition.version] = (await admin.computeSchemaId(definition.schema))!
+  }
+  
+  return ids
+}
+
+/**
+ * Register the provider's interference map schema
+ */
+async function registerMapSchema(streams: MemoryStreams): Promise<`0x${string}`> {
+  const admin = streams.client(zeroAddress)
+  await admin.registerDataSchemas([{
+    id: toHex(INTERFERENCE_MAP_SCHEMA_ID, { size: 32 }),
+    schema: interferenceMapSchema,
+    parentSchemaId: zeroBytes32 as `0x${string}`
+  }])
+  return (await admin.computeSchemaId(interferenceMapSchema))!
+}
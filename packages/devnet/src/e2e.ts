@@ -0,0 +1,534 @@
+import assert from 'node:assert/strict'
+import { BaseError, ContractFunctionRevertedError, parseEther, toHex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import { decodeCellSummary, encodeSignalData } from '../../../shared/codec.js'
+import { signSignalData } from '../../../shared/signing.js'
+import { startDevnet, type Devnet } from './devnet.js'
+import { devnetWallet, hardhatLocal, publicClient } from './chain.js'
+import { buildRevenueReport } from '../../provider/src/revenue.js'
+import { Backtest } from '../../provider/src/backtest.js'
+import { MOCK_MARKET_DEFAULTS } from '../../provider/src/mock-market.js'
+import { SignalRecorder } from '../../provider/src/recorder.js'
+
+// Devices report SNR >= 10 normally and <= 9 under microwave interference,
+// so MIN_SNR=10 grants to everyone and revokes exactly the jammed device.
+const MIN_SNR = 10
+const STEP_TIMEOUT_MS = 30000
+
+async function canTransmit(devnet: Devnet, deviceId: `0x${string}`): Promise<boolean> {
+  return publicClient.readContract({
+    address: devnet.contractAddress,
+    abi: SpectrumMarketABI,
+    functionName: 'canTransmit',
+    args: [deviceId]
+  })
+}
+
+async function waitFor(description: string, check: () => Promise<boolean>) {
+  const deadline = Date.now() + STEP_TIMEOUT_MS
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for: ${description}`)
+    }
+    await new Promise(resolve => setTimeout(resolve, 250))
+  }
+  console.log(`✔ ${description}`)
+}
+
+async function expectRevert(simulation: Promise<unknown>, errorName: string) {
+  const revert = await simulation.then(
+    () => undefined,
+    (error: BaseError) => error.walk(e => e instanceof ContractFunctionRevertedError)
+  )
+  assert.ok(revert instanceof ContractFunctionRevertedError, `expected ${errorName}, call succeeded`)
+  assert.equal(revert.data?.errorName, errorName)
+}
+
+async function escrowOf(devnet: Devnet, account: `0x${string}`): Promise<bigint> {
+  return publicClient.readContract({
+    address: devnet.contractAddress,
+    abi: SpectrumMarketABI,
+    functionName: 'escrowBalance',
+    args: [account]
+  })
+}
+
+async function acceptedRequests(devnet: Devnet, deviceId: `0x${string}`) {
+  return publicClient.getContractEvents({
+    address: devnet.contractAddress,
+    abi: SpectrumMarketABI,
+    eventName: 'RequestAccepted',
+    args: { deviceId },
+    fromBlock: 0n
+  })
+}
+
+/**
+ * Provider pays for every grant and renews them in place
+ */
+async function selfFunded() {
+  console.log('\n── Self-funded grants ──')
+  const devnet = await startDevnet({
+    devices: 3,
+    schemaVersion: 1,
+    deviceFunded: false,
+    provider: { minSnr: MIN_SNR, policyFile: undefined, channelCapacity: 3, channelCapacities: new Map() }
+  })
+  
+  try {
+    const [jammed, ...clean] = devnet.devices
+    const providerAddress = devnetWallet(0).account.address
+    
+    await devnet.provider.start()
+    for (const device of devnet.devices) {
+      await device.startStreaming()
+    }
+    
+    await waitFor('every device is granted on chain', async () => {
+      const states = await Promise.all(devnet.devices.map(d => canTransmit(devnet, d.hexId)))
+      return states.every(Boolean)
+    })
+    
+    for (const device of devnet.devices) {
+      const grant = await publicClient.readContract({
+        address: devnet.contractAddress,
+        abi: SpectrumMarketABI,
+        functionName: 'getGrant',
+        args: [device.hexId]
+      })
+      assert.equal(grant.provider, providerAddress)
+      assert.equal(grant.frequency, 2400)
+    }
+    await waitFor('every device transmits once its grant is seen', async () =>
+      devnet.devices.every(device => device.radioState === 'transmit')
+    )
+    
+    // All three devices share one cell, which now has no room for a fourth
+    const { latitude, longitude } = jammed.location
+    const [active, capacity] = await publicClient.readContract({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      functionName: 'channelOccupancy',
+      args: [2400, latitude, longitude]
+    })
+    assert.equal(active, 3n)
+    assert.equal(capacity, 3n)
+    
+    const overflow = {
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      functionName: 'grantAccess',
+      args: [toHex('device-overflow', { size: 32 }), 2400, 60, latitude + 1, longitude + 1],
+      value: parseEther('0.001')
+    } as const
+    await expectRevert(publicClient.simulateContract({ ...overflow, account: devnetWallet(0).account }), 'ChannelAtCapacity')
+    
+    // Only staked providers may grant at all
+    await expectRevert(publicClient.simulateContract({ ...overflow, account: devnetWallet(9).account }), 'NotRegistered')
+    
+    jammed.triggerMicrowave(8000)
+    
+    await waitFor('jammed device is revoked', async () => !(await canTransmit(devnet, jammed.hexId)))
+    for (const device of clean) {
+      assert.equal(await canTransmit(devnet, device.hexId), true, `device ${device.hexId} lost its grant`)
+    }
+    await waitFor('jammed device stops transmitting', async () => jammed.radioState !== 'transmit')
+    for (const device of clean) {
+      assert.equal(device.radioState, 'transmit')
+    }
+    
+    const revocations = await publicClient.getContractEvents({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      eventName: 'AccessRevoked',
+      fromBlock: 0n
+    })
+    assert.deepEqual(revocations.map(log => log.args.deviceId), [jammed.hexId])
+    assert.equal(revocations[0].args.provider, providerAddress)
+    
+    // Revoking early hands back the unused share of the payment
+    const refunds = await publicClient.getContractEvents({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      eventName: 'GrantRefunded',
+      fromBlock: 0n
+    })
+    assert.equal(refunds.length, 1)
+    assert.equal(refunds[0].args.deviceId, jammed.hexId)
+    assert.ok(refunds[0].args.amount! > 0n, 'revoke refunded nothing')
+    
+    await waitFor('jammed device is granted again once interference clears', () => canTransmit(devnet, jammed.hexId))
+    await waitFor('jammed device transmits again', async () => jammed.radioState === 'transmit')
+    
+    // Clean devices were extended before expiry rather than re-granted
+    await waitFor('clean devices are renewed in place', async () => {
+      const extensions = await publicClient.getContractEvents({
+        address: devnet.contractAddress,
+        abi: SpectrumMarketABI,
+        eventName: 'GrantExtended',
+        fromBlock: 0n
+      })
+      const renewed = new Set(extensions.map(log => log.args.deviceId))
+      return clean.every(device => renewed.has(device.hexId))
+    })
+    for (const device of clean) {
+      const grants = await publicClient.getContractEvents({
+        address: devnet.contractAddress,
+        abi: SpectrumMarketABI,
+        eventName: 'AccessGranted',
+        args: { deviceId: device.hexId },
+        fromBlock: 0n
+      })
+      assert.equal(grants.length, 1, `device ${device.hexId} was re-granted instead of renewed`)
+      assert.equal(await canTransmit(devnet, device.hexId), true)
+    }
+    
+    // The provider maps the shared cell: three reporting devices, all granted
+    const mapRecords = devnet.streams.client(providerAddress)
+    const latestCell = async () => {
+      const count = devnet.streams.count(devnet.mapSchemaId, providerAddress)
+      if (count === 0) return undefined
+      return decodeCellSummary((await mapRecords.getAtIndex(devnet.mapSchemaId, providerAddress, BigInt(count - 1)))![0])
+    }
+    const mappedAfter = Date.now()
+    await waitFor('interference map is published', async () => ((await latestCell())?.windowEnd ?? 0) > mappedAfter)
+    const mapped = (await latestCell())!
+    assert.equal(mapped.frequency, 2400)
+    assert.equal(mapped.latitude, Math.floor(latitude / 10000) * 10000)
+    assert.equal(mapped.devices, 3)
+    assert.equal(mapped.activeGrants, 3)
+    assert.equal(mapped.capacity, 3)
+    assert.ok(mapped.readings > 0 && mapped.meanSnr > MIN_SNR * 10, 'mapped SNR is off')
+    
+    // Readings older than the device's latest are replays: dropped, and they cost it trust
+    const replayer = devnet.streams.client(clean[0].publisherAddress)
+    const replayedAt = Date.now() - 2000
+    for (let i = 0; i < 5; i++) {
+      const replayed = encodeSignalData({
+        timestamp: replayedAt,
+        deviceId: clean[0].hexId,
+        frequency: 2400,
+        snr: 0,
+        ...clean[0].location,
+        interferenceLevel: 5,
+        bidPrice: parseEther('0.01')
+      })
+      await replayer.set([{ id: toHex(`replayed-${i}`, { size: 32 }), schemaId: devnet.schemaIds[1], data: replayed }])
+    }
+    await waitFor('replayed readings cost trust', async () => devnet.provider.trustOf(clean[0].hexId) < 1)
+    assert.equal(await canTransmit(devnet, clean[0].hexId), true, 'replayed readings revoked a clean device')
+
+    await devnet.provider.idle()
+    devnet.provider.stop()
+    
+    // Replaying the recording offline reaches the same decisions, replays included
+    const replay = await new Backtest(devnet.config, MOCK_MARKET_DEFAULTS).run(SignalRecorder.load(devnet.config.recordFile!))
+    const replayed = new Map(replay.devices.map(device => [device.deviceId, device]))
+    assert.equal(replay.dropped, 5)
+    assert.ok(replayed.get(jammed.hexId)!.revokes >= 1, 'replay never revoked the jammed device')
+    assert.ok(replayed.get(jammed.hexId)!.grants >= 2, 'replay never re-granted the jammed device')
+    for (const device of clean) {
+      const outcome = replayed.get(device.hexId)!
+      assert.equal(outcome.revokes, 0)
+      assert.ok(outcome.coverage > 0.8, `replay covered ${device.hexId} for only ${outcome.coverage}`)
+      assert.ok(outcome.spend > 0n)
+    }
+    console.log('✔ replay reproduces the live decisions')
+    
+    // The stopped provider's last grants may be about to lapse; the owner (the
+    // provider here) gives clean[0] a long one to run the checks below against
+    const owner = devnetWallet(0)
+    const market = { address: devnet.contractAddress, abi: SpectrumMarketABI } as const
+    await publicClient.waitForTransactionReceipt({
+      hash: await owner.writeContract({
+        ...market,
+        functionName: 'grantAccess',
+        args: [clean[0].hexId, 2400, 60, latitude, longitude],
+        value: parseEther('0.001')
+      })
+    })
+    
+    // Another provider can't take over a device while its grant is live
+    const rival = devnetWallet(8)
+    await publicClient.waitForTransactionReceipt({
+      hash: await rival.writeContract({
+        ...market,
+        functionName: 'registerProvider',
+        value: await publicClient.readContract({ ...market, functionName: 'minProviderStake' })
+      })
+    })
+    await expectRevert(publicClient.simulateContract({
+      ...market,
+      functionName: 'grantAccess',
+      args: [clean[0].hexId, 2400, 60, latitude, longitude],
+      value: parseEther('0.001'),
+      account: rival.account
+    }), 'GrantActive')
+    
+    // A suspended provider stays suspended: it can't exit and re-register
+    await publicClient.waitForTransactionReceipt({
+      hash: await owner.writeContract({ ...market, functionName: 'suspendProvider', args: [rival.account.address] })
+    })
+    await expectRevert(publicClient.simulateContract({
+      ...market,
+      functionName: 'exitProvider',
+      account: rival.account
+    }), 'ProviderNotActive')
+
+    // Channel floors are set by the owner or its price oracle and bind every grant
+    await expectRevert(publicClient.simulateContract({
+      ...market,
+      functionName: 'setMinPrice',
+      args: [2400, parseEther('0.002')],
+      account: devnetWallet(9).account
+    }), 'NotPriceOracle')
+    await publicClient.waitForTransactionReceipt({
+      hash: await owner.writeContract({ ...market, functionName: 'setPriceOracle', args: [devnetWallet(9).account.address] })
+    })
+    await publicClient.waitForTransactionReceipt({
+      hash: await devnetWallet(9).writeContract({ ...market, functionName: 'setMinPrice', args: [2400, parseEther('0.002')] })
+    })
+    assert.equal(await publicClient.readContract({ ...market, functionName: 'minPrice', args: [2400] }), parseEther('0.002'))
+    assert.equal(await publicClient.readContract({ ...market, functionName: 'minPrice', args: [5800] }), parseEther('0.001'))
+    await expectRevert(publicClient.simulateContract({
+      ...market,
+      functionName: 'setMinPrice',
+      args: [0, 0n],
+      account: owner.account
+    }), 'InvalidPrice')
+    await expectRevert(publicClient.simulateContract({
+      ...market,
+      functionName: 'extendGrant',
+      args: [clean[0].hexId, 60],
+      value: parseEther('0.001'),
+      account: owner.account
+    }), 'InsufficientPayment')
+    
+    // Every grant here is self-funded; their payments stay out of the owner's reach until settled
+    const held = await Promise.all(devnet.devices.map(device =>
+      publicClient.readContract({ ...market, functionName: 'getGrant', args: [device.hexId] })
+    ))
+    assert.equal(
+      await publicClient.readContract({ ...market, functionName: 'totalGrantPayments' }),
+      held.reduce((sum, grant) => sum + grant.paidAmount, 0n)
+    )
+    
+    // The owner's circuit breaker stops grants but not revokes
+    await publicClient.waitForTransactionReceipt({
+      hash: await owner.writeContract({ address: devnet.contractAddress, abi: SpectrumMarketABI, functionName: 'pause' })
+    })
+    await expectRevert(publicClient.simulateContract({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      functionName: 'extendGrant',
+      args: [clean[0].hexId, 60],
+      value: parseEther('0.002'),
+      account: owner.account
+    }), 'GrantsPaused')
+    await publicClient.simulateContract({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      functionName: 'revokeAccess',
+      args: [clean[0].hexId],
+      account: owner.account
+    })
+  } finally {
+    devnet.stop()
+  }
+}
+
+/**
+ * Devices post requests backed by escrow; the provider only accepts them
+ */
+async function deviceFunded() {
+  console.log('\n── Device-funded requests, signed telemetry ──')
+  const devnet = await startDevnet({
+    devices: 3,
+    schemaVersion: 3,
+    deviceFunded: true,
+    provider: { minSnr: MIN_SNR, policyFile: undefined, channelCapacity: 3, channelCapacities: new Map() }
+  })
+  
+  try {
+    const [jammed, ...clean] = devnet.devices
+    const providerAddress = devnetWallet(0).account.address
+    
+    await devnet.provider.start()
+    for (const device of devnet.devices) {
+      await device.startStreaming()
+    }
+    
+    await waitFor('every device is granted from its own request', async () => {
+      const states = await Promise.all(devnet.devices.map(d => canTransmit(devnet, d.hexId)))
+      return states.every(Boolean)
+    })
+    
+    for (const device of devnet.devices) {
+      const grant = await publicClient.readContract({
+        address: devnet.contractAddress,
+        abi: SpectrumMarketABI,
+        functionName: 'getGrant',
+        args: [device.hexId]
+      })
+      assert.equal(grant.provider, providerAddress)
+      assert.equal(grant.payer, device.publisherAddress)
+      assert.equal(grant.frequency, 2400)
+      
+      const [accepted] = await acceptedRequests(devnet, device.hexId)
+      assert.equal(accepted.args.requester, device.publisherAddress)
+      assert.equal(accepted.args.provider, providerAddress)
+      assert.ok(await escrowOf(devnet, device.publisherAddress) < parseEther('0.05'), 'grant was not paid from escrow')
+    }
+    
+    // Every grant so far came from accepting a request; the provider paid for none
+    const grants = await publicClient.getContractEvents({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      eventName: 'AccessGranted',
+      fromBlock: 0n
+    })
+    const accepts = await publicClient.getContractEvents({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      eventName: 'RequestAccepted',
+      fromBlock: 0n
+    })
+    assert.equal(grants.length, accepts.length)
+    
+    const escrowBeforeRevoke = await escrowOf(devnet, jammed.publisherAddress)
+    jammed.triggerMicrowave(8000)
+    
+    await waitFor('jammed device is revoked', async () => !(await canTransmit(devnet, jammed.hexId)))
+    
+    // The unused share goes back to the device's escrow, not the provider
+    const refunds = await publicClient.getContractEvents({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      eventName: 'GrantRefunded',
+      args: { deviceId: jammed.hexId, recipient: jammed.publisherAddress },
+      fromBlock: 0n
+    })
+    assert.ok(refunds.some(log => log.args.amount! > 0n), 'revoke refunded nothing to the device')
+    assert.ok(await escrowOf(devnet, jammed.publisherAddress) > escrowBeforeRevoke, 'refund did not reach escrow')
+    
+    await waitFor('jammed device is granted again from a new request', async () =>
+      await canTransmit(devnet, jammed.hexId) && (await acceptedRequests(devnet, jammed.hexId)).length >= 2
+    )
+    
+    // Readings under a clean device's id signed by any other key are dropped,
+    // even from its own publisher: these would otherwise get it revoked
+    const forger = privateKeyToAccount(generatePrivateKey())
+    const domain = { chainId: hardhatLocal.id, verifyingContract: devnet.contractAddress }
+    const victim = devnet.streams.client(clean[0].publisherAddress)
+    for (let i = 0; i < 8; i++) {
+      const forged = await signSignalData(forger, {
+        timestamp: Date.now(),
+        deviceId: clean[0].hexId,
+        frequency: 2400,
+        snr: 0,
+        ...clean[0].location,
+        interferenceLevel: 5,
+        bidPrice: parseEther('0.001'),
+        rf: { rssi: -95, noiseFloor: -95, bandwidth: 20000, txPower: 20, channelOccupancy: 100 }
+      }, domain)
+      await victim.set([{ id: toHex(`forged-${i}`, { size: 32 }), schemaId: devnet.schemaIds[3], data: encodeSignalData(forged) }])
+      await new Promise(resolve => setTimeout(resolve, 250))
+    }
+    await new Promise(resolve => setTimeout(resolve, 3000))
+    const forgedRevokes = await publicClient.getContractEvents({
+      address: devnet.contractAddress,
+      abi: SpectrumMarketABI,
+      eventName: 'AccessRevoked',
+      args: { deviceId: clean[0].hexId },
+      fromBlock: 0n
+    })
+    assert.equal(forgedRevokes.length, 0, 'forged telemetry revoked a clean device')
+    console.log('✔ forged readings are dropped')
+    
+    // Clean devices re-request before their 10s grants lapse
+    await waitFor('clean devices renew through new requests', async () => {
+      const counts = await Promise.all(clean.map(async d => (await acceptedRequests(devnet, d.hexId)).length))
+      return counts.every(count => count >= 2)
+    })
+    for (const device of clean) {
+      assert.equal(await canTransmit(devnet, device.hexId), true)
+    }
+    
+    await devnet.provider.idle()
+    devnet.provider.stop()
+    
+    // Replaced and revoked grants settled into the provider's ledger, less the protocol fee
+    const market = { address: devnet.contractAddress, abi: SpectrumMarketABI } as const
+    const settled = await publicClient.getContractEvents({ ...market, eventName: 'RevenueSettled', fromBlock: 0n })
+    assert.ok(settled.length > 0, 'no grant settled')
+    const feeBps = BigInt(await publicClient.readContract({ ...market, functionName: 'protocolFeeBps' }))
+    for (const log of settled) {
+      const { providerShare, protocolShare } = log.args
+      assert.equal(log.args.provider, providerAddress)
+      assert.equal(protocolShare, (providerShare! + protocolShare!) * feeBps / 10000n)
+    }
+    
+    const owner = devnetWallet(0)
+    const earned = await publicClient.readContract({ ...market, functionName: 'earnings', args: [providerAddress] })
+    const fees = await publicClient.readContract({ ...market, functionName: 'protocolFees' })
+    assert.equal(earned, settled.reduce((sum, log) => sum + log.args.providerShare!, 0n))
+    
+    await publicClient.waitForTransactionReceipt({
+      hash: await owner.writeContract({ ...market, functionName: 'claimEarnings' })
+    })
+    assert.equal(await publicClient.readContract({ ...market, functionName: 'earnings', args: [providerAddress] }), 0n)
+    const withdrawn = await publicClient.waitForTransactionReceipt({
+      hash: await owner.writeContract({ ...market, functionName: 'withdraw' })
+    })
+    
+    // getBlockNumber is cached by the client, so bound the report by the last receipt
+    const report = await buildRevenueReport(publicClient, devnet.contractAddress, 0n, withdrawn.blockNumber, 1000n)
+    const allGrants = await publicClient.getContractEvents({ ...market, eventName: 'AccessGranted', fromBlock: 0n })
+    assert.equal(report.providers.length, 1)
+    assert.equal(report.providers[0].grants, allGrants.length)
+    assert.equal(report.providers[0].claimed, earned)
+    assert.deepEqual(report.withdrawals.map(w => w.amount), [fees])
+    
+    // An open request can only be displaced by a strictly higher bid, which refunds the first requester
+    const squatter = devnetWallet(8)
+    const outbidder = devnetWallet(9)
+    const target = toHex('unclaimed-device', { size: 32 })
+    const request = (bid: bigint) => ({
+      ...market,
+      functionName: 'requestAccess',
+      args: [target, 2400, 10, bid, 60, clean[0].location.latitude, clean[0].location.longitude]
+    } as const)
+    for (const wallet of [squatter, outbidder]) {
+      await publicClient.waitForTransactionReceipt({
+        hash: await wallet.writeContract({ ...market, functionName: 'depositEscrow', value: parseEther('0.05') })
+      })
+    }
+    await publicClient.waitForTransactionReceipt({
+      hash: await squatter.writeContract(request(parseEther('0.01')))
+    })
+    await expectRevert(publicClient.simulateContract({ ...request(parseEther('0.01')), account: outbidder.account }), 'RequestPending')
+    await publicClient.waitForTransactionReceipt({
+      hash: await outbidder.writeContract(request(parseEther('0.02')))
+    })
+    const displaced = await publicClient.readContract({ ...market, functionName: 'accessRequests', args: [target] })
+    assert.equal(displaced[0], outbidder.account.address)
+    assert.equal(await escrowOf(devnet, squatter.account.address), parseEther('0.05'))
+    console.log('✔ open requests are displaced only by higher bids')
+  } finally {
+    devnet.stop()
+  }
+}
+
+async function main() {
+  await selfFunded()
+  await deviceFunded()
+  console.log('\n✅ Devnet end-to-end checks passed')
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌', error)
+    process.exit(1)
+  })
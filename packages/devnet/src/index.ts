@@ -0,0 +1,44 @@
+import { startDevnet } from './devnet.js'
+import { Scenario } from '../../simulator/src/scenario.js'
+import type { SchemaVersion } from '../../../shared/schema.js'
+import * as dotenv from 'dotenv'
+
+dotenv.config()
+
+const NUM_DEVICES = Number(process.env.NUM_DEVICES || 3)
+const SCHEMA_VERSION = Number(process.env.SCHEMA_VERSION || 1) as SchemaVersion
+const DEVICE_FUNDED = process.env.DEVICE_FUNDED !== 'false'
+const SCENARIO_FILE = process.env.SCENARIO_FILE
+const SCENARIO_SEED = process.env.SCENARIO_SEED ? Number(process.env.SCENARIO_SEED) : undefined
+
+async function main() {
+  console.log('🧪 EtherSignal Devnet Starting...')
+  
+  // Same scenarios as the simulator; the default is its microwave demo
+  const scenario = SCENARIO_FILE ? Scenario.fromFile(SCENARIO_FILE, SCENARIO_SEED) : Scenario.demo(NUM_DEVICES, SCENARIO_SEED)
+  const devnet = await startDevnet({
+    devices: scenario.devices.length,
+    profiles: scenario.devices.map(device => device.profile),
+    schemaVersion: SCHEMA_VERSION,
+    deviceFunded: DEVICE_FUNDED
+  })
+  
+  const shutdown = () => {
+    console.log('\n👋 Devnet shutting down...')
+    scenario.stop()
+    devnet.stop()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  
+  await devnet.provider.start()
+  scenario.play(devnet.devices, shutdown)
+  
+  console.log(`\n✅ ${scenario.devices.length} devices against ${devnet.contractAddress}`)
+  console.log('Press Ctrl+C to stop\n')
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,122 @@
+import { SchemaEncoder, zeroBytes32 } from '@somnia-chain/streams'
+import { keccak256, toHex, type Address, type Hex } from 'viem'
+import type { StreamsClient } from '../../../shared/streams.js'
+
+type DecodedRecord = ReturnType<SchemaEncoder['decodeData']>
+
+interface RegisteredSchema {
+  schema: string
+  parentSchemaId: Hex
+}
+
+/**
+ * In-process stand-in for the Somnia Streams contract. Holds every schema
+ * and every published record; `client(publisher)` hands out an SDK-shaped
+ * view that publishes as that wallet.
+ */
+export class MemoryStreams {
+  private schemas = new Map<Hex, RegisteredSchema>()
+  private records = new Map<string, Hex[]>()
+  private encoders = new Map<Hex, SchemaEncoder>()
+  private writes = 0
+
+  client(publisher: Address): StreamsClient {
+    return {
+      set: async streams => {
+        for (const stream of streams) this.append(stream.schemaId, publisher, stream.data)
+        return this.txHash()
+      },
+      getAtIndex: async (schemaId, owner, index) => {
+        const record = this.streamOf(schemaId, owner)[Number(index)]
+        return record ? this.decode(schemaId, [record]) : null
+      },
+      getBetweenRange: async (schemaId, owner, start, end) => {
+        const stream = this.streamOf(schemaId, owner)
+        if (start >= end || end > BigInt(stream.length)) {
+          return new Error(`Invalid range ${start}-${end} (${stream.length} records)`)
+        }
+        return this.decode(schemaId, stream.slice(Number(start), Number(end)))
+      },
+      totalPublisherDataForSchema: async (schemaId, owner) =>
+        BigInt(this.streamOf(schemaId, owner).length),
+      computeSchemaId: async schema => computeSchemaId(schema),
+      isDataSchemaRegistered: async schemaId => this.schemas.has(schemaId),
+      registerDataSchemas: async registrations => {
+        for (const { schema, parentSchemaId = zeroBytes32 as Hex } of registrations) {
+          const schemaId = computeSchemaId(schema)
+          if (this.schemas.has(schemaId)) {
+            throw new Error(`SchemaAlreadyRegistered: ${schemaId}`)
+          }
+          if (parentSchemaId !== zeroBytes32 && !this.schemas.has(parentSchemaId)) {
+            throw new Error(`Unknown parent schema ${parentSchemaId}`)
+          }
+          this.schemas.set(schemaId, { schema, parentSchemaId })
+        }
+        return this.txHash()
+      }
+    }
+  }
+
+  /**
+   * Number of records a publisher has written under a schema
+   */
+  count(schemaId: Hex, publisher: Address): number {
+    return this.streamOf(schemaId, publisher).length
+  }
+
+  private append(schemaId: Hex, publisher: Address, data: Hex) {
+    if (!this.schemas.has(schemaId)) {
+      throw new Error(`Schema ${schemaId} is not registered`)
+    }
+    const key = streamKey(schemaId, publisher)
+    const stream = this.records.get(key) ?? []
+    stream.push(data)
+    this.records.set(key, stream)
+  }
+
+  private streamOf(schemaId: Hex, publisher: Address): Hex[] {
+    return this.records.get(streamKey(schemaId, publisher)) ?? []
+  }
+
+  /**
+   * Registered schemas decode like public schemas on chain: child fields
+   * first, then the parent's
+   */
+  private decode(schemaId: Hex, data: Hex[]): DecodedRecord[] {
+    const encoder = this.encoderFor(schemaId)
+    return data.map(record => encoder.decodeData(record))
+  }
+
+  private encoderFor(schemaId: Hex): SchemaEncoder {
+    let encoder = this.encoders.get(schemaId)
+    if (!encoder) {
+      encoder = new SchemaEncoder(this.fullSchema(schemaId))
+      this.encoders.set(schemaId, encoder)
+    }
+    return encoder
+  }
+
+  private fullSchema(schemaId: Hex): string {
+    const registered = this.schemas.get(schemaId)
+    if (!registered) throw new Error(`Schema ${schemaId} is not registered`)
+    return registered.parentSchemaId === zeroBytes32
+      ? registered.schema
+      : `${registered.schema},${this.fullSchema(registered.parentSchemaId)}`
+  }
+
+  private txHash(): Hex {
+    return keccak256(toHex(`memory-streams-${++this.writes}`))
+  }
+}
+
+/**
+ * Deterministic schema id. Not the on-chain value, which only matters when
+ * ids are shared with a live deployment.
+ */
+export function computeSchemaId(schema: string): Hex {
+  return keccak256(toHex(schema))
+}
+
+function streamKey(schemaId: Hex, publisher: Address): string {
+  return `${schemaId.toLowerCase()}:${publisher.toLowerCase()}`
+}
@@ -0,0 +1,174 @@
+import type { SignalData } from '../../../shared/schema.js'
+
+export type AnomalyKind =
+  | 'peer-snr'          // SNR far from nearby devices on the same channel
+  | 'peer-interference' // interference far from nearby devices on the same channel
+  | 'jump'              // SNR changed more than physically plausible between readings
+  | 'skew'              // timestamp too far ahead of the provider clock
+  | 'replay'            // timestamp not after the device's last reading
+  | 'stuck'             // identical readings for too long
+
+// Readings with these timestamps cannot be placed in the device's history
+const DROPPED: AnomalyKind[] = ['skew', 'replay']
+
+// Only readings this close together are checked for jumps
+const JUMP_WINDOW_MS = 1000
+
+export interface AnomalyConfig {
+  peerRadius: number              // microdegrees; devices this close are compared
+  peerWindowMs: number            // a peer's last reading counts this long
+  minPeers: number                // peers needed before cross-checking
+  maxPeerSnrDeviation: number     // dB from the peers' median SNR
+  maxPeerInterferenceDeviation: number // levels from the peers' median interference
+  maxSnrJump: number              // dB between readings under a second apart
+  maxClockSkewMs: number          // how far a timestamp may run ahead of ours
+  stuckReadings: number           // identical readings in a row that count as stuck
+  trustPenalty: number            // trust lost per anomaly
+  trustRecovery: number           // trust regained per clean reading
+}
+
+export interface Inspection {
+  anomalies: AnomalyKind[]
+  trust: number                   // 0 (never believed) to 1 (fully trusted)
+  drop: boolean                   // reading must not be acted on
+}
+
+interface DeviceHistory {
+  timestamp: number
+  snr: number
+  fingerprint: string
+  repeats: number
+}
+
+interface PeerReading {
+  latitude: number
+  longitude: number
+  snr: number
+  interferenceLevel: number
+  seenAt: number
+}
+
+/**
+ * Flags telemetry a device is unlikely to have measured honestly.
+ *
+ * Bids rise as reported SNR falls, so a device gains by reporting worse
+ * signal than it has. Each reading is compared against the device's own
+ * history and against the median of nearby devices on the same frequency;
+ * every anomaly costs the device trust and every clean reading earns a
+ * little back. Replayed and future-dated readings are also dropped.
+ */
+export class AnomalyDetector {
+  private history = new Map<string, DeviceHistory>()
+  private trust = new Map<string, number>()
+  private peers = new Map<number, Map<string, PeerReading>>()
+
+  constructor(private config: AnomalyConfig) {}
+
+  /**
+   * Check a reading, fold it into the device's history and update its trust
+   */
+  inspect(signal: SignalData, now = Date.now()): Inspection {
+    const key = signal.deviceId.toLowerCase()
+    const previous = this.history.get(key)
+    const anomalies: AnomalyKind[] = []
+
+    if (signal.timestamp - now > this.config.maxClockSkewMs) anomalies.push('skew')
+    else if (previous && signal.timestamp <= previous.timestamp) anomalies.push('replay')
+
+    if (anomalies.some(kind => DROPPED.includes(kind))) {
+      return { anomalies, trust: this.score(key, anomalies), drop: true }
+    }
+
+    if (
+      previous &&
+      signal.timestamp - previous.timestamp <= JUMP_WINDOW_MS &&
+      Math.abs(signal.snr - previous.snr) > this.config.maxSnrJump
+    ) {
+      anomalies.push('jump')
+    }
+
+    const fingerprint = fingerprintOf(signal)
+    const repeats = previous?.fingerprint === fingerprint ? previous.repeats + 1 : 1
+    if (repeats >= this.config.stuckReadings) anomalies.push('stuck')
+
+    anomalies.push(...this.crossCheck(key, signal, now))
+    this.remember(key, signal, now)
+    this.history.set(key, { timestamp: signal.timestamp, snr: signal.snr, fingerprint, repeats })
+
+    return { anomalies, trust: this.score(key, anomalies), drop: false }
+  }
+
+  /**
+   * Current trust in a device's telemetry; unseen devices start fully trusted
+   */
+  trustOf(deviceId: string): number {
+    return this.trust.get(deviceId.toLowerCase()) ?? 1
+  }
+
+  private score(key: string, anomalies: AnomalyKind[]): number {
+    const trust = this.trustOf(key)
+    const updated = anomalies.length > 0
+      ? Math.max(0, trust - this.config.trustPenalty * anomalies.length)
+      : Math.min(1, trust + this.config.trustRecovery)
+    this.trust.set(key, updated)
+    return updated
+  }
+
+  /**
+   * Compare against the median of other recent readings nearby on the same channel
+   */
+  private crossCheck(key: string, signal: SignalData, now: number): AnomalyKind[] {
+    const nearby = [...(this.peers.get(signal.frequency)?.entries() ?? [])]
+      .filter(([deviceId, peer]) =>
+        deviceId !== key &&
+        now - peer.seenAt <= this.config.peerWindowMs &&
+        Math.hypot(peer.latitude - signal.latitude, peer.longitude - signal.longitude) <= this.config.peerRadius
+      )
+      .map(([, peer]) => peer)
+    if (nearby.length < this.config.minPeers) return []
+
+    const anomalies: AnomalyKind[] = []
+    if (Math.abs(signal.snr - median(nearby.map(peer => peer.snr))) > this.config.maxPeerSnrDeviation) {
+      anomalies.push('peer-snr')
+    }
+    if (Math.abs(signal.interferenceLevel - median(nearby.map(peer => peer.interferenceLevel))) > this.config.maxPeerInterferenceDeviation) {
+      anomalies.push('peer-interference')
+    }
+    return anomalies
+  }
+
+  private remember(key: string, signal: SignalData, now: number) {
+    // A device that changed channel is no longer a peer on the old one
+    for (const [frequency, channel] of this.peers) {
+      if (frequency !== signal.frequency) channel.delete(key)
+    }
+
+    const channel = this.peers.get(signal.frequency) ?? new Map<string, PeerReading>()
+    channel.set(key, {
+      latitude: signal.latitude,
+      longitude: signal.longitude,
+      snr: signal.snr,
+      interferenceLevel: signal.interferenceLevel,
+      seenAt: now
+    })
+    this.peers.set(signal.frequency, channel)
+  }
+}
+
+/**
+ * Everything a live sensor would vary between readings
+ */
+function fingerprintOf(signal: SignalData): string {
+  const rf = signal.rf
+  return [
+    signal.snr,
+    signal.interferenceLevel,
+    rf ? `${rf.rssi}/${rf.noiseFloor}/${rf.channelOccupancy}` : ''
+  ].join(':')
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
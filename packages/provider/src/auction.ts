@@ -0,0 +1,160 @@
+import type { PolicyDecision } from './policy.js'
+
+export interface SealedBid {
+  deviceId: `0x${string}`
+  frequency: number
+  bidPrice: bigint
+  interferenceLevel: number
+  decision: PolicyDecision
+}
+
+export interface Award {
+  deviceId: `0x${string}`
+  bidPrice: bigint
+  payment: bigint
+  decision: PolicyDecision
+}
+
+export interface Loss {
+  deviceId: `0x${string}`
+  bidPrice: bigint
+  reason: 'outbid' | 'below-reserve'
+}
+
+export interface AuctionResult {
+  frequency: number
+  capacity: number
+  reservePrice: bigint
+  clearingPrice: bigint
+  winners: Award[]
+  losers: Loss[]
+}
+
+export interface AuctionConfig {
+  reservePrice: bigint
+  defaultCapacity: number
+  capacities?: Map<number, number>
+}
+
+interface RoundBid extends SealedBid {
+  seq: number
+}
+
+/**
+ * Periodic sealed-bid auction, one per frequency.
+ *
+ * Devices submit bids during a round; only the latest bid per device counts.
+ * On settle, the top `capacity` bids at or above the reserve win and all pay
+ * a uniform clearing price: the highest losing bid, floored at the reserve.
+ */
+export class ChannelAuction {
+  private bids = new Map<string, RoundBid>()
+  private seq = 0
+
+  constructor(private config: AuctionConfig) {}
+
+  /**
+   * Parse a capacity list like "2400:3,5800:1"
+   */
+  static parseCapacities(spec: string | undefined): Map<number, number> {
+    const capacities = new Map<number, number>()
+    if (!spec) return capacities
+
+    for (const entry of spec.split(',')) {
+      const [frequency, capacity] = entry.split(':').map(s => Number(s.trim()))
+      if (!Number.isInteger(frequency) || !Number.isInteger(capacity) || capacity < 0) {
+        throw new Error(`Invalid channel capacity "${entry}" (expected <MHz>:<slots>)`)
+      }
+      capacities.set(frequency, capacity)
+    }
+    return capacities
+  }
+
+  capacityOf(frequency: number): number {
+    return this.config.capacities?.get(frequency) ?? this.config.defaultCapacity
+  }
+
+  get reservePrice(): bigint {
+    return this.config.reservePrice
+  }
+
+  get pendingBids(): number {
+    return this.bids.size
+  }
+
+  /**
+   * Submit (or replace) a device's bid for the current round
+   */
+  submit(bid: SealedBid) {
+    this.bids.set(bid.deviceId, { ...bid, seq: this.seq++ })
+  }
+
+  /**
+   * Drop a device's bid from the current round
+   */
+  withdraw(deviceId: string) {
+    this.bids.delete(deviceId)
+  }
+
+  /**
+   * The current round's bids, by frequency
+   */
+  demand(): Map<number, SealedBid[]> {
+    return this.byFrequency()
+  }
+
+  /**
+   * Close the round and allocate every channel that received bids. A
+   * channel's reserve may be raised above the configured one for this round.
+   */
+  settle(reserves?: Map<number, bigint>): AuctionResult[] {
+    const byFrequency = this.byFrequency()
+    this.bids.clear()
+
+    const results: AuctionResult[] = []
+    for (const [frequency, bids] of byFrequency) {
+      const raised = reserves?.get(frequency) ?? 0n
+      results.push(this.settleChannel(frequency, bids, raised > this.config.reservePrice ? raised : this.config.reservePrice))
+    }
+    return results
+  }
+
+  private byFrequency(): Map<number, RoundBid[]> {
+    const byFrequency = new Map<number, RoundBid[]>()
+    for (const bid of this.bids.values()) {
+      const channel = byFrequency.get(bid.frequency) ?? []
+      channel.push(bid)
+      byFrequency.set(bid.frequency, channel)
+    }
+    return byFrequency
+  }
+
+  private settleChannel(frequency: number, bids: RoundBid[], reserve: bigint): AuctionResult {
+    const capacity = this.capacityOf(frequency)
+
+    // Highest bid first; earlier bid breaks ties
+    const ranked = bids
+      .filter(b => b.bidPrice >= reserve)
+      .sort((a, b) => (a.bidPrice === b.bidPrice ? a.seq - b.seq : a.bidPrice > b.bidPrice ? -1 : 1))
+
+    const winning = ranked.slice(0, capacity)
+    const outbid = ranked.slice(capacity)
+    const clearingPrice = outbid.length > 0 ? outbid[0].bidPrice : reserve
+
+    const winners: Award[] = winning.map(b => ({
+      deviceId: b.deviceId,
+      bidPrice: b.bidPrice,
+      payment: clearingPrice > b.decision.payment ? clearingPrice : b.decision.payment,
+      decision: b.decision
+    }))
+
+    const losers: Loss[] = [
+      ...outbid.map(b => ({ deviceId: b.deviceId, bidPrice: b.bidPrice, reason: 'outbid' as const })),
+      ...bids
+        .filter(b => b.bidPrice < reserve)
+        .map(b => ({ deviceId: b.deviceId, bidPrice: b.bidPrice, reason: 'below-reserve' as const }))
+    ]
+
+    return { frequency, capacity, reservePrice: reserve, clearingPrice, winners, losers }
+  }
+}
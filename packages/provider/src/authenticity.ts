@@ -0,0 +1,71 @@
+import type { PublicClient } from 'viem'
+import type { SignalData } from '../../../shared/schema.js'
+import { recoverSignalSigner, type SigningDomain } from '../../../shared/signing.js'
+import type { DevicePublisherRegistry } from './registry.js'
+import type { StateStore } from './store.js'
+
+export interface AuthenticityConfig {
+  contract: `0x${string}`
+  requireSigned: boolean    // drop unsigned readings even from devices without a signer
+}
+
+/**
+ * Checks that a reading really comes from its device.
+ *
+ * A device with a signer in the registry must sign every reading (schema v3)
+ * with that key, over the market's EIP-712 domain. Each device's signed
+ * timestamps must strictly increase, so a captured reading cannot be
+ * published again. The last accepted timestamp is kept in the state store
+ * across restarts; a device with none on record is held to readings signed
+ * after this process started.
+ */
+export class TelemetryAuthenticator {
+  private domain?: Promise<SigningDomain>
+  private startedAt = Date.now()
+
+  constructor(
+    private publicClient: PublicClient,
+    private registry: DevicePublisherRegistry,
+    private store: StateStore,
+    private config: AuthenticityConfig
+  ) {}
+
+  /**
+   * Why the reading must be dropped, or undefined if it is authentic
+   */
+  async problem(signal: SignalData): Promise<string | undefined> {
+    const signer = this.registry.signerOf(signal.deviceId)
+
+    if (!signal.signature) {
+      if (signer) return 'unsigned reading from a device with a signing key'
+      return this.config.requireSigned ? 'unsigned reading' : undefined
+    }
+    if (!signer) return 'signed reading from a device with no registered signer'
+
+    let recovered: `0x${string}`
+    try {
+      recovered = await recoverSignalSigner(signal, await this.signingDomain())
+    } catch {
+      return 'unverifiable signature'
+    }
+    if (recovered.toLowerCase() !== signer.toLowerCase()) return `forged (signed by ${recovered})`
+
+    const key = `signed:${signal.deviceId.toLowerCase()}`
+    const last = this.store.getCheckpoint(key)
+    if (last !== undefined ? BigInt(signal.timestamp) <= last : signal.timestamp < this.startedAt) return 'replayed'
+    this.store.setCheckpoint(key, BigInt(signal.timestamp))
+
+    return undefined
+  }
+
+  private signingDomain(): Promise<SigningDomain> {
+    this.domain ??= this.publicClient.getChainId().then(
+      chainId => ({ chainId, verifyingContract: this.config.contract }),
+      error => {
+        this.domain = undefined
+        throw error
+      }
+    )
+    return this.domain
+  }
+}
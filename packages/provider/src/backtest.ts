@@ -0,0 +1,255 @@
+import type { ProviderConfig } from './config.js'
+import { PolicyEngine } from './policy.js'
+import { Hysteresis } from './hysteresis.js'
+import { AnomalyDetector } from './anomaly.js'
+import { ChannelAuction } from './auction.js'
+import { CongestionPricer } from './pricing.js'
+import { OccupancyView, type Location } from './occupancy.js'
+import { MockMarket, type MockMarketConfig } from './mock-market.js'
+import type { RecordedReading } from './recorder.js'
+
+// SpectrumMarket.MAX_DURATION
+const MAX_GRANT_SECONDS = 3600
+
+export interface DeviceReport {
+  deviceId: string
+  readings: number
+  grants: number
+  renewals: number
+  revokes: number
+  flaps: number             // access regained within accessChangeWindowMs of losing it
+  spend: bigint             // wei, payments net of refunds
+  coverage: number          // share of the time the device was heard from that it held a grant
+  trust: number
+}
+
+export interface BacktestReport {
+  from: number
+  to: number
+  readings: number
+  stale: number             // older than maxSignalAgeMs on arrival
+  dropped: number           // replayed or future-dated
+  auctions: number
+  devices: DeviceReport[]
+}
+
+interface DeviceStats {
+  readings: number
+  grants: number
+  renewals: number
+  revokes: number
+  flaps: number
+  firstSeen: number
+  lastSeen: number
+}
+
+/**
+ * Replays a recording through the provider's decision logic: the same
+ * policy, hysteresis, trust, auction and congestion pricing as
+ * SpectrumProvider, on a simulated clock against a MockMarket.
+ *
+ * Every decision lands at once, as if each transaction confirmed instantly.
+ * Grants are self-funded at the auction price (device requests are not
+ * recorded), and signatures are not re-verified: the recorder only sees
+ * readings that already passed them.
+ */
+export class Backtest {
+  private now = 0
+  private market: MockMarket
+  private policy: PolicyEngine
+  private hysteresis: Hysteresis
+  private anomalies: AnomalyDetector
+  private auction: ChannelAuction
+  private pricing: CongestionPricer
+  private locations = new Map<string, Location>()
+  private stats = new Map<string, DeviceStats>()
+  private stale = 0
+  private dropped = 0
+  private auctions = 0
+
+  constructor(private config: ProviderConfig, market: MockMarketConfig) {
+    this.market = new MockMarket(market, () => this.now)
+    this.policy = config.policyFile ? PolicyEngine.fromFile(config.policyFile) : PolicyEngine.minSnr(config.minSnr)
+    this.hysteresis = new Hysteresis({
+      smoothing: config.snrSmoothing,
+      minHoldMs: config.minHoldMs,
+      maxChanges: config.maxAccessChanges,
+      changeWindowMs: config.accessChangeWindowMs
+    })
+    this.anomalies = new AnomalyDetector({
+      peerRadius: config.anomalyPeerRadius,
+      peerWindowMs: config.anomalyPeerWindowMs,
+      minPeers: config.anomalyMinPeers,
+      maxPeerSnrDeviation: config.maxPeerSnrDeviation,
+      maxPeerInterferenceDeviation: config.maxPeerInterferenceDeviation,
+      maxSnrJump: config.maxSnrJump,
+      maxClockSkewMs: config.maxClockSkewMs,
+      stuckReadings: config.stuckReadings,
+      trustPenalty: config.trustPenalty,
+      trustRecovery: config.trustRecovery
+    })
+    this.auction = new ChannelAuction({
+      reservePrice: config.minBidPrice,
+      defaultCapacity: config.channelCapacity,
+      capacities: config.channelCapacities
+    })
+    this.pricing = new CongestionPricer(this.market.client, {
+      contract: this.market.address,
+      basePrice: config.minBidPrice,
+      demandWeight: config.priceDemandWeight,
+      interferenceWeight: config.priceInterferenceWeight,
+      maxMultiplier: config.priceMaxMultiplier
+    })
+  }
+
+  /**
+   * Replay readings in received order, with an auction every auctionIntervalMs
+   */
+  async run(readings: RecordedReading[]): Promise<BacktestReport> {
+    if (readings.length === 0) throw new Error('Recording is empty')
+
+    const from = readings[0].receivedAt
+    const to = readings[readings.length - 1].receivedAt
+    let nextAuction = from + this.config.auctionIntervalMs
+
+    for (const reading of readings) {
+      while (nextAuction <= reading.receivedAt) {
+        this.now = nextAuction
+        await this.runAuction()
+        nextAuction += this.config.auctionIntervalMs
+      }
+      this.now = reading.receivedAt
+      this.handle(reading)
+    }
+
+    return {
+      from,
+      to,
+      readings: readings.length,
+      stale: this.stale,
+      dropped: this.dropped,
+      auctions: this.auctions,
+      devices: [...this.stats].map(([deviceId, stats]) => this.report(deviceId, stats))
+    }
+  }
+
+  /**
+   * SpectrumProvider.handleSignalData, from the age check on
+   */
+  private handle({ signal }: RecordedReading) {
+    const deviceId = signal.deviceId.toLowerCase() as `0x${string}`
+    const now = this.now
+
+    if (now - signal.timestamp > this.config.maxSignalAgeMs) {
+      this.stale++
+      return
+    }
+
+    const inspection = this.anomalies.inspect(signal, now)
+    if (inspection.drop) {
+      this.dropped++
+      return
+    }
+
+    const stats = this.stats.get(deviceId) ?? { readings: 0, grants: 0, renewals: 0, revokes: 0, flaps: 0, firstSeen: now, lastSeen: now }
+    stats.readings++
+    stats.lastSeen = now
+    this.stats.set(deviceId, stats)
+    this.locations.set(deviceId, { latitude: signal.latitude, longitude: signal.longitude })
+
+    const grantActive = this.market.grantOf(deviceId) !== undefined
+    const smoothed = this.hysteresis.smooth(signal)
+    const decision = this.policy.evaluate(smoothed, grantActive ? this.config.snrHysteresis : 0)
+
+    if (decision.action === 'grant' || decision.action === 'extend') {
+      if (!grantActive && !this.hysteresis.canChange(deviceId, now)) return
+      if (inspection.trust < this.config.minTrust) {
+        this.auction.withdraw(deviceId)
+        return
+      }
+      this.auction.submit({
+        deviceId,
+        frequency: signal.frequency,
+        bidPrice: signal.bidPrice,
+        interferenceLevel: smoothed.interferenceLevel,
+        decision
+      })
+    } else if (decision.action === 'revoke') {
+      this.auction.withdraw(deviceId)
+      if (grantActive && this.hysteresis.canChange(deviceId, now)) this.revoke(deviceId)
+    }
+  }
+
+  /**
+   * SpectrumProvider.runAuction for self-funded grants
+   */
+  private async runAuction() {
+    const prices = await this.pricing.quote(this.auction.demand(), frequency => this.auction.capacityOf(frequency))
+    for (const quote of prices.values()) this.policy.setFloor(quote.frequency, quote.floor)
+    const results = this.auction.settle(new Map([...prices].map(([frequency, quote]) => [frequency, quote.price])))
+    if (results.length > 0) this.auctions++
+    const occupancy = await OccupancyView.load(this.market.client, this.market.address)
+
+    for (const result of results) {
+      for (const award of result.winners) {
+        const grant = this.market.grantOf(award.deviceId)
+        const remaining = grant ? grant.expiresAt * 1000 - this.now : 0
+        const renew = grant !== undefined && grant.frequency === result.frequency
+        const renewAt = award.decision.action === 'extend'
+          ? Math.max(this.config.renewMarginMs, (grant?.duration ?? 0) * 500)
+          : this.config.renewMarginMs
+        const location = this.locations.get(award.deviceId)
+        if (!location || (renew && remaining >= renewAt)) continue
+
+        if (renew) {
+          const duration = Math.min(award.decision.duration, MAX_GRANT_SECONDS - Math.ceil(remaining / 1000))
+          if (duration <= 0) continue
+          this.market.extend(award.deviceId, duration, award.payment)
+          this.stats.get(award.deviceId)!.renewals++
+        } else {
+          if (!(await occupancy.reserve(result.frequency, location))) continue
+          this.grant(award.deviceId, result.frequency, location, award.decision.duration, award.payment)
+        }
+      }
+
+      for (const loss of result.losers) {
+        if (this.market.grantOf(loss.deviceId)?.frequency === result.frequency) this.revoke(loss.deviceId)
+      }
+    }
+  }
+
+  private grant(deviceId: `0x${string}`, frequency: number, location: Location, duration: number, payment: bigint) {
+    const stats = this.stats.get(deviceId)!
+    const lastAccess = this.market.accessOf(deviceId).at(-1)
+    if (!this.market.grantOf(deviceId)) {
+      this.hysteresis.recordChange(deviceId, this.now)
+      if (lastAccess && this.now - lastAccess.to <= this.config.accessChangeWindowMs) stats.flaps++
+    }
+    this.market.grant(deviceId, frequency, location, duration, payment)
+    stats.grants++
+  }
+
+  private revoke(deviceId: `0x${string}`) {
+    this.hysteresis.recordChange(deviceId, this.now)
+    this.market.revoke(deviceId)
+    this.stats.get(deviceId)!.revokes++
+  }
+
+  private report(deviceId: string, stats: DeviceStats): DeviceReport {
+    const span = stats.lastSeen - stats.firstSeen
+    const covered = this.market.accessOf(deviceId).reduce((sum, { from, to }) =>
+      sum + Math.max(0, Math.min(to, stats.lastSeen) - Math.max(from, stats.firstSeen)), 0)
+
+    return {
+      deviceId,
+      readings: stats.readings,
+      grants: stats.grants,
+      renewals: stats.renewals,
+      revokes: stats.revokes,
+      flaps: stats.flaps,
+      spend: this.market.spentBy(deviceId),
+      coverage: span > 0 ? covered / span : 0,
+      trust: this.anomalies.trustOf(deviceId)
+    }
+  }
+}
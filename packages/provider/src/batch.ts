@@ -0,0 +1,170 @@
+import { parseEventLogs } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import {
+  decodeErrorSelector,
+  describeError,
+  describeOutcome,
+  type TxOutcome
+} from './tx-manager.js'
+
+/**
+ * grant: provider pays; renew: provider extends its own active grant;
+ * accept: the device's open request is granted and paid from its escrow
+ */
+export type GrantKind = 'grant' | 'renew' | 'accept'
+
+export interface GrantItem {
+  deviceId: `0x${string}`
+  frequency: number
+  duration: number
+  payment: bigint     // for accepts, the price charged against the bid
+  kind: GrantKind
+  latitude: number    // microdegrees; picks the channel-cell the grant occupies
+  longitude: number
+}
+
+export interface Queued<I, C> {
+  item: I
+  context: C
+}
+
+/**
+ * Outcome for one device of a batch transaction
+ */
+export interface ItemResult {
+  deviceId: `0x${string}`
+  ok: boolean
+  detail: string      // failure explanation, or the tx hash on success
+  refund?: bigint     // unused payment returned to the payer on revoke
+}
+
+/**
+ * Grant and revoke decisions collected during one tick. A later decision
+ * for a device replaces any earlier one, since only the final state needs
+ * to reach the chain. `C` is whatever the caller needs to settle an item.
+ */
+export class DecisionBatch<C> {
+  private grants = new Map<string, Queued<GrantItem, C>>()
+  private revokes = new Map<string, Queued<`0x${string}`, C>>()
+
+  get size(): number {
+    return this.grants.size + this.revokes.size
+  }
+
+  /**
+   * Queue a grant; returns the context of a decision it superseded
+   */
+  addGrant(item: GrantItem, context: C): C | undefined {
+    const key = item.deviceId.toLowerCase()
+    const superseded = this.grants.get(key) ?? this.revokes.get(key)
+    this.revokes.delete(key)
+    this.grants.set(key, { item, context })
+    return superseded?.context
+  }
+
+  /**
+   * Queue a revoke; returns the context of a decision it superseded
+   */
+  addRevoke(deviceId: `0x${string}`, context: C): C | undefined {
+    const key = deviceId.toLowerCase()
+    const superseded = this.revokes.get(key) ?? this.grants.get(key)
+    this.grants.delete(key)
+    this.revokes.set(key, { item: deviceId, context })
+    return superseded?.context
+  }
+
+  /**
+   * Take everything queued, split into chunks of at most `maxSize` items
+   */
+  drain(maxSize: number): {
+    grants: Queued<GrantItem, C>[][]
+    renewals: Queued<GrantItem, C>[][]
+    accepts: Queued<GrantItem, C>[][]
+    revokes: Queued<`0x${string}`, C>[][]
+  } {
+    const grants = [...this.grants.values()]
+    const ofKind = (kind: GrantKind) => chunk(grants.filter(entry => entry.item.kind === kind), maxSize)
+    const drained = {
+      grants: ofKind('grant'),
+      renewals: ofKind('renew'),
+      accepts: ofKind('accept'),
+      revokes: chunk([...this.revokes.values()], maxSize)
+    }
+    this.grants.clear()
+    this.revokes.clear()
+    return drained
+  }
+}
+
+/**
+ * Per-device results of a batchGrantAccess call, in item order
+ */
+export function grantResults(items: GrantItem[], outcome: TxOutcome): ItemResult[] {
+  return itemResults(items.map(item => item.deviceId), outcome, 'AccessGranted', 'GrantFailed')
+}
+
+/**
+ * Per-device results of a batchExtendGrant call, in item order
+ */
+export function renewalResults(items: GrantItem[], outcome: TxOutcome): ItemResult[] {
+  return itemResults(items.map(item => item.deviceId), outcome, 'GrantExtended', 'ExtendFailed')
+}
+
+/**
+ * Per-device results of a batchAcceptRequests call, in item order
+ */
+export function acceptResults(items: GrantItem[], outcome: TxOutcome): ItemResult[] {
+  return itemResults(items.map(item => item.deviceId), outcome, 'RequestAccepted', 'AcceptFailed')
+}
+
+/**
+ * Per-device results of a batchRevokeAccess call, in item order, with refunds
+ */
+export function revokeResults(deviceIds: `0x${string}`[], outcome: TxOutcome): ItemResult[] {
+  const results = itemResults(deviceIds, outcome, 'AccessRevoked', 'RevokeFailed')
+  if (outcome.status !== 'confirmed') return results
+
+  const refunds = new Map<string, bigint>()
+  for (const log of parseEventLogs({ abi: SpectrumMarketABI, eventName: 'GrantRefunded', logs: outcome.receipt.logs })) {
+    refunds.set(log.args.deviceId.toLowerCase(), log.args.amount)
+  }
+  return results.map(result => ({ ...result, refund: refunds.get(result.deviceId.toLowerCase()) ?? 0n }))
+}
+
+function itemResults(
+  deviceIds: `0x${string}`[],
+  outcome: TxOutcome,
+  successEvent: 'AccessGranted' | 'GrantExtended' | 'RequestAccepted' | 'AccessRevoked',
+  failureEvent: 'GrantFailed' | 'ExtendFailed' | 'AcceptFailed' | 'RevokeFailed'
+): ItemResult[] {
+  if (outcome.status !== 'confirmed') {
+    const detail = describeOutcome(outcome)
+    return deviceIds.map(deviceId => ({ deviceId, ok: false, detail }))
+  }
+
+  const byDevice = new Map<string, ItemResult>()
+  const logs = parseEventLogs({
+    abi: SpectrumMarketABI,
+    eventName: [successEvent, failureEvent],
+    logs: outcome.receipt.logs
+  })
+
+  for (const log of logs) {
+    const deviceId = log.args.deviceId
+    byDevice.set(deviceId.toLowerCase(), log.eventName === successEvent
+      ? { deviceId, ok: true, detail: outcome.hash }
+      : { deviceId, ok: false, detail: describeError(decodeErrorSelector((log.args as { reason: `0x${string}` }).reason)) })
+  }
+
+  return deviceIds.map(deviceId =>
+    byDevice.get(deviceId.toLowerCase()) ?? { deviceId, ok: false, detail: 'no event for device in receipt' }
+  )
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
@@ -0,0 +1,134 @@
+import { ChannelAuction } from './auction.js'
+
+export interface ProviderConfig {
+  contractAddress: `0x${string}`
+  schemaId: `0x${string}`
+  schemaIdV2?: `0x${string}`
+  schemaIdV3?: `0x${string}`
+  interferenceMapSchemaId?: `0x${string}`  // publish the interference map here; unset disables it
+  mapWindowMs: number         // readings summarized per publish
+  mapPublishIntervalMs: number
+  publisherAddress?: `0x${string}`  // legacy shared publisher
+  deviceRegistryFile: string
+  registryReloadMs: number
+  requireSignedTelemetry: boolean   // drop unsigned readings even from devices without a signer
+  minSnr: number
+  snrSmoothing: number        // EWMA weight of the newest SNR reading; 1 disables smoothing
+  snrHysteresis: number       // dB a granted device may stray past a grant rule's SNR bounds before it is revoked
+  minHoldMs: number           // a grant or revoke stands at least this long
+  maxAccessChanges: number    // grants plus revokes allowed per device per window
+  accessChangeWindowMs: number
+  minTrust: number            // devices trusted less than this (0-1) win no grants or renewals
+  trustPenalty: number        // trust lost per telemetry anomaly
+  trustRecovery: number       // trust regained per clean reading
+  anomalyPeerRadius: number   // microdegrees; devices this close cross-check each other
+  anomalyPeerWindowMs: number
+  anomalyMinPeers: number
+  maxPeerSnrDeviation: number           // dB from nearby devices' median SNR
+  maxPeerInterferenceDeviation: number  // levels from nearby devices' median interference
+  maxSnrJump: number          // dB between readings under a second apart
+  maxClockSkewMs: number      // how far a reading's timestamp may run ahead of ours
+  stuckReadings: number       // identical readings in a row that count as a stuck sensor
+  policyFile?: string
+  minBidPrice: bigint
+  priceDemandWeight: number       // reserve rise per bidder beyond capacity, per slot
+  priceInterferenceWeight: number // reserve rise at critical mean interference
+  priceMaxMultiplier: number      // reserve cap, as a multiple of the floor
+  channelCapacity: number
+  channelCapacities: Map<number, number>
+  auctionIntervalMs: number
+  renewMarginMs: number       // extend a grant once it has this little time left
+  selfFundedGrants: boolean   // grant devices without an open request, paying ourselves
+  requestRefreshMs: number
+  stateFile: string
+  recordFile?: string         // append every reading the decision logic sees, for replays
+  maxSignalAgeMs: number
+  reconcileIntervalMs: number
+  reconcileLookbackBlocks: bigint
+  reconcileGraceMs: number
+  reconcileFromBlock?: bigint
+  logBlockRange: bigint
+  ingestBatchSize: number
+  ingestBufferSize: number
+  ingestFallbackMs: number
+  maxPendingTx: number
+  batchMaxSize: number
+  txMaxInFlight: number
+  txConfirmations: number
+  txReceiptTimeoutMs: number
+  txMaxAttempts: number
+  txGasBumpPercent: number
+  txGasBufferPercent: number
+  txPollIntervalMs: number
+  explorerUrl?: string
+}
+
+/**
+ * Build the provider configuration from environment variables
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig {
+  const auctionIntervalMs = Number(env.AUCTION_INTERVAL_MS || 5000)
+  
+  return {
+    contractAddress: env.CONTRACT_ADDRESS as `0x${string}`,
+    schemaId: env.SCHEMA_ID as `0x${string}`,
+    schemaIdV2: env.SCHEMA_ID_V2 as `0x${string}` | undefined,
+    schemaIdV3: env.SCHEMA_ID_V3 as `0x${string}` | undefined,
+    interferenceMapSchemaId: env.INTERFERENCE_MAP_SCHEMA_ID as `0x${string}` | undefined,
+    mapWindowMs: Number(env.MAP_WINDOW_MS || 60000),
+    mapPublishIntervalMs: Number(env.MAP_PUBLISH_INTERVAL_MS || 30000),
+    publisherAddress: env.PUBLISHER_ADDRESS as `0x${string}` | undefined,
+    deviceRegistryFile: env.DEVICE_REGISTRY_FILE || './devices.json',
+    registryReloadMs: Number(env.REGISTRY_RELOAD_MS || 5000),
+    requireSignedTelemetry: env.REQUIRE_SIGNED_TELEMETRY === 'true',
+    minSnr: Number(env.MIN_SNR || 10),
+    snrSmoothing: Number(env.SNR_SMOOTHING || 0.3),
+    snrHysteresis: Number(env.SNR_HYSTERESIS_DB || 2),
+    minHoldMs: Number(env.MIN_HOLD_MS || 15000),
+    maxAccessChanges: Number(env.MAX_ACCESS_CHANGES || 4),
+    accessChangeWindowMs: Number(env.ACCESS_CHANGE_WINDOW_MS || 60000),
+    minTrust: Number(env.MIN_TRUST || 0.5),
+    trustPenalty: Number(env.TRUST_PENALTY || 0.02),
+    trustRecovery: Number(env.TRUST_RECOVERY || 0.002),
+    anomalyPeerRadius: Number(env.ANOMALY_PEER_RADIUS || 10000),
+    anomalyPeerWindowMs: Number(env.ANOMALY_PEER_WINDOW_MS || 5000),
+    anomalyMinPeers: Number(env.ANOMALY_MIN_PEERS || 2),
+    maxPeerSnrDeviation: Number(env.ANOMALY_MAX_SNR_DEVIATION_DB || 12),
+    maxPeerInterferenceDeviation: Number(env.ANOMALY_MAX_INTERFERENCE_DEVIATION || 4),
+    maxSnrJump: Number(env.ANOMALY_MAX_SNR_JUMP_DB || 20),
+    maxClockSkewMs: Number(env.MAX_CLOCK_SKEW_MS || 5000),
+    stuckReadings: Number(env.ANOMALY_STUCK_READINGS || 50),
+    policyFile: env.POLICY_FILE,
+    minBidPrice: BigInt(env.MIN_BID_PRICE || '1000000000000000'), // 0.001 STT reserve
+    priceDemandWeight: Number(env.PRICE_DEMAND_WEIGHT || 1),
+    priceInterferenceWeight: Number(env.PRICE_INTERFERENCE_WEIGHT || 0.5),
+    priceMaxMultiplier: Number(env.PRICE_MAX_MULTIPLIER || 10),
+    channelCapacity: Number(env.CHANNEL_CAPACITY || 3),
+    channelCapacities: ChannelAuction.parseCapacities(env.CHANNEL_CAPACITIES),
+    auctionIntervalMs,
+    renewMarginMs: Number(env.RENEW_MARGIN_MS || 2 * auctionIntervalMs),
+    selfFundedGrants: env.SELF_FUNDED_GRANTS === 'true',
+    requestRefreshMs: Number(env.REQUEST_REFRESH_MS || auctionIntervalMs),
+    stateFile: env.STATE_FILE || './provider-state.ndjson',
+    recordFile: env.RECORD_FILE || undefined,
+    maxSignalAgeMs: Number(env.MAX_SIGNAL_AGE_MS || 30000),
+    reconcileIntervalMs: Number(env.RECONCILE_INTERVAL_MS || 30000),
+    reconcileLookbackBlocks: BigInt(env.RECONCILE_LOOKBACK_BLOCKS || 50000),
+    reconcileGraceMs: Number(env.RECONCILE_GRACE_MS || 15000),
+    reconcileFromBlock: env.RECONCILE_FROM_BLOCK ? BigInt(env.RECONCILE_FROM_BLOCK) : undefined,
+    logBlockRange: BigInt(env.LOG_BLOCK_RANGE || 1000),
+    ingestBatchSize: Number(env.INGEST_BATCH_SIZE || 100),
+    ingestBufferSize: Number(env.INGEST_BUFFER_SIZE || 500),
+    ingestFallbackMs: Number(env.INGEST_FALLBACK_MS || 2000),
+    maxPendingTx: Number(env.MAX_PENDING_TX || 50),
+    batchMaxSize: Number(env.BATCH_MAX_SIZE || 50),
+    txMaxInFlight: Number(env.TX_MAX_IN_FLIGHT || 4),
+    txConfirmations: Number(env.TX_CONFIRMATIONS || 1),
+    txReceiptTimeoutMs: Number(env.TX_RECEIPT_TIMEOUT_MS || 30000),
+    txMaxAttempts: Number(env.TX_MAX_ATTEMPTS || 3),
+    txGasBumpPercent: Number(env.TX_GAS_BUMP_PERCENT || 20),
+    txGasBufferPercent: Number(env.TX_GAS_BUFFER_PERCENT || 20),
+    txPollIntervalMs: Number(env.TX_POLL_INTERVAL_MS || 1000),
+    explorerUrl: env.EXPLORER_URL ?? 'https://shannon-explorer.somnia.network'
+  }
+}
@@ -0,0 +1,74 @@
+import type { SignalData } from '../../../shared/schema.js'
+
+export interface HysteresisConfig {
+  smoothing: number         // EWMA weight of the newest reading, (0, 1]; 1 disables smoothing
+  minHoldMs: number         // a grant or revoke stands at least this long
+  maxChanges: number        // access changes allowed per device per window
+  changeWindowMs: number
+}
+
+interface Average {
+  snr: number
+  interference: number
+}
+
+/**
+ * Damps per-device grant/revoke flapping caused by noisy telemetry.
+ *
+ * Readings are smoothed with an EWMA before the policy sees them, and a
+ * device's access may only change once the last change has stood for
+ * `minHoldMs` and while it has changed fewer than `maxChanges` times in
+ * the last `changeWindowMs`.
+ */
+export class Hysteresis {
+  private averages = new Map<string, Average>()
+  private changes = new Map<string, number[]>()
+
+  constructor(private config: HysteresisConfig) {
+    if (!(config.smoothing > 0 && config.smoothing <= 1)) {
+      throw new Error(`SNR smoothing must be in (0, 1], got ${config.smoothing}`)
+    }
+  }
+
+  /**
+   * Fold a reading into the device's running average and return the smoothed reading
+   */
+  smooth(signal: SignalData): SignalData {
+    const key = signal.deviceId.toLowerCase()
+    const average = this.averages.get(key)
+    const alpha = this.config.smoothing
+
+    if (!average) {
+      this.averages.set(key, { snr: signal.snr, interference: signal.interferenceLevel })
+      return signal
+    }
+
+    average.snr += alpha * (signal.snr - average.snr)
+    average.interference += alpha * (signal.interferenceLevel - average.interference)
+    return {
+      ...signal,
+      snr: Math.round(average.snr * 10) / 10,
+      interferenceLevel: Math.round(average.interference)
+    }
+  }
+
+  /**
+   * Whether the device's access may be granted or revoked now
+   */
+  canChange(deviceId: string, now = Date.now()): boolean {
+    const recent = this.recent(deviceId.toLowerCase(), now)
+    if (recent.length === 0) return true
+    if (now - recent[recent.length - 1] < this.config.minHoldMs) return false
+    return recent.length < this.config.maxChanges
+  }
+
+  recordChange(deviceId: string, now = Date.now()) {
+    const key = deviceId.toLowerCase()
+    this.changes.set(key, [...this.recent(key, now), now])
+  }
+
+  private recent(key: string, now: number): number[] {
+    const since = now - this.config.changeWindowMs
+    return (this.changes.get(key) ?? []).filter(at => at > since)
+  }
+}
@@ -0,0 +1,243 @@
+import type { StreamsClient } from '../../../shared/streams.js'
+import type { PublicClient } from 'viem'
+
+/**
+ * One record as returned by the Streams SDK: decoded fields when the schema
+ * is public, raw hex otherwise.
+ */
+export type StreamRecord = unknown
+
+export interface StreamSource {
+  schemaId: `0x${string}`
+  publisher: `0x${string}`
+}
+
+export interface IngestorConfig extends StreamSource {
+  batchSize: number           // max records per range read
+  bufferSize: number          // max fetched-but-unhandled records
+}
+
+export interface HubConfig extends Omit<IngestorConfig, keyof StreamSource> {
+  fallbackIntervalMs: number  // poll period when no block notifications arrive
+}
+
+export interface IngestorHooks {
+  /** Process one record; the cursor only advances once this resolves */
+  handle(record: StreamRecord, index: bigint): Promise<void>
+  /** Persist progress after a record was handled */
+  commit(index: bigint): void
+  /** Resolves once downstream (the tx queue) can take more work */
+  waitForCapacity(): Promise<void>
+}
+
+interface Buffered {
+  index: bigint
+  record: StreamRecord
+}
+
+/**
+ * Ingests one (schema, publisher) stream.
+ *
+ * Fetching and handling each run single-flight, so wake-ups can never
+ * overlap or process an index twice; the buffer between them is bounded and
+ * the handler waits on the tx queue before taking the next record.
+ */
+export class StreamIngestor {
+  private buffer: Buffered[] = []
+  private nextFetch: bigint
+  private fetching = false
+  private fetchRequested = false
+  private consuming = false
+  private stopped = false
+
+  constructor(
+    private streams: StreamsClient,
+    private config: IngestorConfig,
+    private hooks: IngestorHooks,
+    startIndex: bigint
+  ) {
+    this.nextFetch = startIndex
+  }
+
+  get lag(): number {
+    return this.buffer.length
+  }
+
+  stop() {
+    this.stopped = true
+  }
+
+  /**
+   * Request a fetch pass; coalesces with one already in progress
+   */
+  wake() {
+    if (this.stopped) return
+    if (this.fetching) {
+      this.fetchRequested = true
+      return
+    }
+    this.fetchLoop().catch(error => console.error('Ingestion error:', error.message))
+  }
+
+  private async fetchLoop() {
+    this.fetching = true
+    try {
+      do {
+        this.fetchRequested = false
+        await this.fetchAvailable()
+      } while (this.fetchRequested && !this.stopped)
+    } finally {
+      this.fetching = false
+    }
+  }
+
+  private async fetchAvailable() {
+    const { schemaId, publisher, batchSize, bufferSize } = this.config
+
+    const total = await this.streams.totalPublisherDataForSchema(schemaId, publisher)
+    if (!total) return
+
+    while (this.nextFetch < total && !this.stopped) {
+      const room = bufferSize - this.buffer.length
+      if (room <= 0) {
+        // Buffer full: the consumer wakes us when it has drained some
+        this.fetchRequested = false
+        return
+      }
+
+      const count = BigInt(Math.min(batchSize, room))
+      const end = this.nextFetch + count < total ? this.nextFetch + count : total
+      const records = await this.fetchRange(this.nextFetch, end)
+      if (records.length === 0) return
+
+      for (const record of records) {
+        this.buffer.push({ index: this.nextFetch, record })
+        this.nextFetch++
+      }
+      this.consume()
+    }
+  }
+
+  /**
+   * Read [start, end) with one range call, falling back to per-index reads
+   */
+  private async fetchRange(start: bigint, end: bigint): Promise<StreamRecord[]> {
+    const { schemaId, publisher } = this.config
+
+    if (end - start > 1n) {
+      const range = await this.streams.getBetweenRange(schemaId, publisher, start, end)
+      if (Array.isArray(range)) {
+        return range.slice(0, Number(end - start))
+      }
+      console.warn(`⚠️ Range read ${start}-${end} failed, falling back to single reads`)
+    }
+
+    const records: StreamRecord[] = []
+    for (let i = start; i < end; i++) {
+      const data = await this.streams.getAtIndex(schemaId, publisher, i)
+      if (!data) break
+      records.push(data[0])
+    }
+    return records
+  }
+
+  private consume() {
+    if (this.consuming) return
+    this.consumeLoop().catch(error => console.error('Ingestion handler error:', error.message))
+  }
+
+  private async consumeLoop() {
+    this.consuming = true
+    try {
+      while (this.buffer.length > 0 && !this.stopped) {
+        await this.hooks.waitForCapacity()
+
+        const { index, record } = this.buffer.shift()!
+        await this.hooks.handle(record, index)
+        this.hooks.commit(index)
+
+        // Space freed up: let the fetcher top the buffer back up
+        if (this.buffer.length === Math.floor(this.config.bufferSize / 2)) this.wake()
+      }
+    } finally {
+      this.consuming = false
+    }
+  }
+}
+
+/**
+ * Runs one StreamIngestor per (schema, publisher) source. New blocks on the
+ * WebSocket client wake every ingestor, with a slow timer as fallback.
+ */
+export class IngestionHub {
+  private ingestors = new Map<string, StreamIngestor>()
+  private unwatch?: () => void
+  private fallbackTimer?: NodeJS.Timeout
+
+  constructor(
+    private streams: StreamsClient,
+    private publicClient: PublicClient,
+    private config: HubConfig,
+    private hooksFor: (source: StreamSource) => IngestorHooks,
+    private startIndexFor: (source: StreamSource) => bigint
+  ) {}
+
+  get size(): number {
+    return this.ingestors.size
+  }
+
+  start() {
+    this.unwatch = this.publicClient.watchBlockNumber({
+      emitOnBegin: true,
+      onBlockNumber: () => this.wakeAll(),
+      onError: error => console.error('Block subscription error:', error.message)
+    })
+    this.fallbackTimer = setInterval(() => this.wakeAll(), this.config.fallbackIntervalMs)
+  }
+
+  stop() {
+    this.unwatch?.()
+    clearInterval(this.fallbackTimer)
+    this.ingestors.forEach(ingestor => ingestor.stop())
+    this.ingestors.clear()
+  }
+
+  /**
+   * Start ingestors for new sources and stop those no longer listed
+   */
+  sync(sources: StreamSource[]) {
+    const wanted = new Set(sources.map(sourceKey))
+
+    for (const [key, ingestor] of this.ingestors) {
+      if (!wanted.has(key)) {
+        ingestor.stop()
+        this.ingestors.delete(key)
+        console.log(`➖ Stopped ingesting ${key}`)
+      }
+    }
+
+    for (const source of sources) {
+      const key = sourceKey(source)
+      if (this.ingestors.has(key)) continue
+
+      const startIndex = this.startIndexFor(source)
+      const ingestor = new StreamIngestor(
+        this.streams,
+        { ...this.config, ...source },
+        this.hooksFor(source),
+        startIndex
+      )
+      this.ingestors.set(key, ingestor)
+      console.log(`➕ Ingesting publisher ${source.publisher} (schema ${source.schemaId.slice(0, 10)}...) from index ${startIndex}`)
+      ingestor.wake()
+    }
+  }
+
+  private wakeAll() {
+    this.ingestors.forEach(ingestor => ingestor.wake())
+  }
+}
+
+function sourceKey(source: StreamSource): string {
+  return `${source.schemaId.toLowerCase()}:${source.publisher.toLowerCase()}`
+}
@@ -0,0 +1,142 @@
+import { keccak256, toHex, type PublicClient } from 'viem'
+import { encodeCellSummary } from '../../../shared/codec.js'
+import type { CellSummary, SignalData } from '../../../shared/schema.js'
+import type { StreamsClient } from '../../../shared/streams.js'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+export interface InterferenceMapConfig {
+  contract: `0x${string}`
+  schemaId: `0x${string}`   // registered InterferenceMap schema
+  windowMs: number          // readings older than this drop out of a cell
+}
+
+interface BinnedReading {
+  deviceId: string
+  snr: number
+  interferenceLevel: number
+  at: number
+}
+
+interface Cell {
+  frequency: number
+  latitude: number          // south-west corner, microdegrees
+  longitude: number
+  readings: BinnedReading[]
+}
+
+/**
+ * Rolling per-channel map of reported signal quality.
+ *
+ * Readings are binned into SpectrumMarket's geographic cells per frequency;
+ * `publish` summarizes every cell heard from within the window, adds the
+ * cell's on-chain grant occupancy, and writes one record per cell to
+ * Streams, so consumers can read channel quality by area without replaying
+ * raw device data. Call `load` once before recording.
+ */
+export class InterferenceMap {
+  private cells = new Map<string, Cell>()
+  private cellSize?: number
+
+  constructor(
+    private publicClient: PublicClient,
+    private streams: StreamsClient,
+    private config: InterferenceMapConfig
+  ) {}
+
+  /**
+   * Read SpectrumMarket.cellSize, which is fixed for the contract's lifetime
+   */
+  async load() {
+    this.cellSize = Number(await this.publicClient.readContract({
+      address: this.config.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'cellSize'
+    }))
+  }
+
+  record(signal: SignalData, now = Date.now()) {
+    const cellSize = this.size()
+    const latitude = Math.floor(signal.latitude / cellSize) * cellSize
+    const longitude = Math.floor(signal.longitude / cellSize) * cellSize
+    const key = `${signal.frequency}:${latitude}:${longitude}`
+
+    const cell = this.cells.get(key) ?? { frequency: signal.frequency, latitude, longitude, readings: [] }
+    // Readings arrive in order, so the expired ones are at the front
+    const since = now - this.config.windowMs
+    while (cell.readings.length > 0 && cell.readings[0].at <= since) cell.readings.shift()
+    cell.readings.push({
+      deviceId: signal.deviceId.toLowerCase(),
+      snr: signal.snr,
+      interferenceLevel: signal.interferenceLevel,
+      at: now
+    })
+    this.cells.set(key, cell)
+  }
+
+  /**
+   * Summarize the current window and publish it; returns what was published
+   */
+  async publish(now = Date.now()): Promise<CellSummary[]> {
+    this.prune(now)
+    if (this.cells.size === 0) return []
+
+    const cellSize = this.size()
+    const summaries = await Promise.all([...this.cells.values()].map(cell => this.summarize(cell, cellSize, now)))
+
+    await this.streams.set(summaries.map(summary => ({
+      id: keccak256(toHex(`map-${summary.frequency}-${summary.latitude}-${summary.longitude}-${summary.windowEnd}`)),
+      schemaId: this.config.schemaId,
+      data: encodeCellSummary(summary)
+    })))
+    return summaries
+  }
+
+  private async summarize(cell: Cell, cellSize: number, now: number): Promise<CellSummary> {
+    const { readings } = cell
+    let minSnr = readings[0].snr
+    let maxInterference = readings[0].interferenceLevel
+    for (const reading of readings) {
+      minSnr = Math.min(minSnr, reading.snr)
+      maxInterference = Math.max(maxInterference, reading.interferenceLevel)
+    }
+    const [activeGrants, capacity] = await this.publicClient.readContract({
+      address: this.config.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'channelOccupancy',
+      args: [cell.frequency, cell.latitude, cell.longitude]
+    })
+
+    return {
+      windowStart: readings[0].at,
+      windowEnd: now,
+      frequency: cell.frequency,
+      latitude: cell.latitude,
+      longitude: cell.longitude,
+      cellSize,
+      devices: new Set(readings.map(reading => reading.deviceId)).size,
+      readings: readings.length,
+      meanSnr: Math.round(readings.reduce((sum, reading) => sum + reading.snr, 0) * 10 / readings.length),
+      minSnr,
+      meanInterference: Math.round(readings.reduce((sum, reading) => sum + reading.interferenceLevel, 0) * 10 / readings.length),
+      maxInterference,
+      activeGrants: Number(activeGrants),
+      capacity: Number(capacity)
+    }
+  }
+
+  /**
+   * Drop readings that have left the window, and cells left empty
+   */
+  private prune(now: number) {
+    const since = now - this.config.windowMs
+    for (const [key, cell] of this.cells) {
+      cell.readings = cell.readings.filter(reading => reading.at > since)
+      if (cell.readings.length === 0) this.cells.delete(key)
+    }
+  }
+
+  private size(): number {
+    if (this.cellSize === undefined) throw new Error('Interference map used before load()')
+    return this.cellSize
+  }
+}
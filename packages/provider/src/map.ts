@@ -0,0 +1,72 @@
+import { SDK } from '@somnia-chain/streams'
+import { isAddress } from 'viem'
+import { publicClient, walletClient } from './clients.js'
+import { loadConfig } from './config.js'
+import { decodeCellSummary } from '../../../shared/codec.js'
+import type { CellSummary } from '../../../shared/schema.js'
+import * as dotenv from 'dotenv'
+
+dotenv.config()
+
+const config = loadConfig()
+
+// Records read back from the end of the stream; enough for several publishes
+const LOOKBACK = 500n
+
+const USAGE = `Usage: npm run map -- [MHz] [publisher]
+
+  Latest interference map summary per channel and cell, as published under
+  INTERFERENCE_MAP_SCHEMA_ID by publisher (default: this provider's wallet)`
+
+async function main() {
+  const [channel, publisherArg] = process.argv.slice(2)
+  const frequency = channel ? Number(channel) : undefined
+  const publisher = publisherArg ?? walletClient.account.address
+
+  if (!config.interferenceMapSchemaId || (frequency !== undefined && !Number.isInteger(frequency)) || !isAddress(publisher)) {
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+
+  const streams = new SDK({ public: publicClient }).streams
+  const total = await streams.totalPublisherDataForSchema(config.interferenceMapSchemaId, publisher) ?? 0n
+  if (total === 0n) {
+    console.log(`🗺️ No interference map published by ${publisher}`)
+    return
+  }
+
+  const start = total > LOOKBACK ? total - LOOKBACK : 0n
+  const records = await streams.getBetweenRange(config.interferenceMapSchemaId, publisher, start, total)
+  if (records instanceof Error || !records) throw new Error(`Failed to read map records: ${records?.message ?? 'no data'}`)
+
+  // Later records replace earlier ones for the same cell
+  const latest = new Map<string, CellSummary>()
+  for (const record of records) {
+    const cell = decodeCellSummary(record)
+    if (frequency === undefined || cell.frequency === frequency) {
+      latest.set(`${cell.frequency}:${cell.latitude}:${cell.longitude}`, cell)
+    }
+  }
+
+  console.log(`\n🗺️ Interference map by ${publisher} (${latest.size} cells)`)
+  const cells = [...latest.values()].sort((a, b) =>
+    a.frequency - b.frequency || a.latitude - b.latitude || a.longitude - b.longitude
+  )
+  for (const cell of cells) {
+    const corner = `${(cell.latitude / 1e6).toFixed(4)}, ${(cell.longitude / 1e6).toFixed(4)}`
+    console.log(
+      `   ${cell.frequency} MHz @ ${corner} | ${cell.devices} devices | ` +
+      `SNR ${cell.meanSnr / 10}dB (min ${cell.minSnr}dB) | ` +
+      `Interference ${cell.meanInterference / 10} (max ${cell.maxInterference}) | ` +
+      `Grants ${cell.activeGrants}/${cell.capacity} | ${new Date(cell.windowEnd).toISOString()}`
+    )
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('❌', error.shortMessage ?? error.message)
+    process.exit(1)
+  })
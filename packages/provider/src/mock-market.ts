@@ -0,0 +1,169 @@
+import { parseEther, type PublicClient } from 'viem'
+import type { Location } from './occupancy.js'
+
+export interface MockMarketConfig {
+  cellSize: number              // microdegrees (SpectrumMarket.cellSize)
+  maxGrantsPerChannel: number
+  defaultMinPrice: bigint
+  minPrices?: Map<number, bigint>
+}
+
+// SpectrumMarket's deployment defaults
+export const MOCK_MARKET_DEFAULTS: MockMarketConfig = {
+  cellSize: 10000,
+  maxGrantsPerChannel: 3,
+  defaultMinPrice: parseEther('0.001')
+}
+
+export interface MockGrant {
+  frequency: number
+  cell: string
+  grantedAt: number             // s, start of the current payment window
+  expiresAt: number             // s
+  duration: number              // s, of the last grant or extension
+  paidAmount: bigint
+}
+
+// A device's access over time, in ms
+export interface AccessInterval {
+  from: number
+  to: number
+}
+
+/**
+ * In-memory SpectrumMarket for replays: grants, extensions and revokes with
+ * the contract's cell capacity, price floors and pro-rata refunds, on a
+ * caller-supplied clock. `client` answers the reads the provider's pricing
+ * and occupancy checks make, so they run against it unchanged.
+ */
+export class MockMarket {
+  readonly address = '0x0000000000000000000000000000000000000000' as const
+  readonly client: PublicClient
+  private grants = new Map<string, MockGrant>()
+  private access = new Map<string, AccessInterval[]>()
+  private spent = new Map<string, bigint>()
+
+  constructor(private config: MockMarketConfig, private clock: () => number) {
+    this.client = { readContract: (call: { functionName: string; args?: unknown[] }) => this.read(call) } as unknown as PublicClient
+  }
+
+  minPrice(frequency: number): bigint {
+    return this.config.minPrices?.get(frequency) ?? this.config.defaultMinPrice
+  }
+
+  /**
+   * The device's grant, if it is live now
+   */
+  grantOf(deviceId: string): MockGrant | undefined {
+    const grant = this.grants.get(deviceId.toLowerCase())
+    return grant && grant.expiresAt > this.seconds() ? grant : undefined
+  }
+
+  /**
+   * New grant, replacing (and settling) any grant the device still holds
+   */
+  grant(deviceId: string, frequency: number, location: Location, duration: number, payment: bigint) {
+    const key = deviceId.toLowerCase()
+    const cell = this.cellOf(frequency, location)
+    if (payment < this.minPrice(frequency)) throw new Error('InsufficientPayment')
+    if (this.occupancy(cell, key) >= this.config.maxGrantsPerChannel) throw new Error('ChannelAtCapacity')
+
+    if (this.grantOf(key)) this.revoke(key)
+    const now = this.seconds()
+    this.grants.set(key, { frequency, cell, grantedAt: now, expiresAt: now + duration, duration, paidAmount: payment })
+    this.spend(key, payment)
+
+    const intervals = this.access.get(key) ?? []
+    intervals.push({ from: this.clock(), to: (now + duration) * 1000 })
+    this.access.set(key, intervals)
+  }
+
+  /**
+   * Extend a live grant; the unused share of the old payment carries over
+   */
+  extend(deviceId: string, duration: number, payment: bigint) {
+    const key = deviceId.toLowerCase()
+    const grant = this.grantOf(key)
+    if (!grant) throw new Error('GrantExpired')
+    if (payment < this.minPrice(grant.frequency)) throw new Error('InsufficientPayment')
+
+    grant.paidAmount = this.refundable(grant) + payment
+    grant.grantedAt = this.seconds()
+    grant.expiresAt += duration
+    grant.duration = duration
+    this.spend(key, payment)
+    this.access.get(key)!.at(-1)!.to = grant.expiresAt * 1000
+  }
+
+  /**
+   * End a live grant now; returns the refunded unused share
+   */
+  revoke(deviceId: string): bigint {
+    const key = deviceId.toLowerCase()
+    const grant = this.grantOf(key)
+    if (!grant) throw new Error('NoActiveGrant')
+
+    const refund = this.refundable(grant)
+    this.grants.delete(key)
+    this.spend(key, -refund)
+    this.access.get(key)!.at(-1)!.to = this.clock()
+    return refund
+  }
+
+  /**
+   * Payments net of refunds
+   */
+  spentBy(deviceId: string): bigint {
+    return this.spent.get(deviceId.toLowerCase()) ?? 0n
+  }
+
+  /**
+   * Every stretch of access the device has had, oldest first
+   */
+  accessOf(deviceId: string): AccessInterval[] {
+    return this.access.get(deviceId.toLowerCase()) ?? []
+  }
+
+  private spend(key: string, amount: bigint) {
+    this.spent.set(key, (this.spent.get(key) ?? 0n) + amount)
+  }
+
+  private refundable(grant: MockGrant): bigint {
+    const now = this.seconds()
+    if (grant.expiresAt <= now) return 0n
+    return grant.paidAmount * BigInt(grant.expiresAt - now) / BigInt(grant.expiresAt - grant.grantedAt)
+  }
+
+  private seconds(): number {
+    return Math.floor(this.clock() / 1000)
+  }
+
+  // Same grouping as SpectrumMarket._channelCell
+  private cellOf(frequency: number, { latitude, longitude }: Location): string {
+    const size = this.config.cellSize
+    return `${frequency}:${Math.floor(latitude / size)}:${Math.floor(longitude / size)}`
+  }
+
+  private occupancy(cell: string, except?: string): number {
+    let count = 0
+    for (const [deviceId, grant] of this.grants) {
+      if (deviceId !== except && grant.cell === cell && grant.expiresAt > this.seconds()) count++
+    }
+    return count
+  }
+
+  private async read({ functionName, args = [] }: { functionName: string; args?: unknown[] }): Promise<unknown> {
+    switch (functionName) {
+      case 'cellSize':
+        return this.config.cellSize
+      case 'minPrice':
+        return this.minPrice(args[0] as number)
+      case 'channelOccupancy': {
+        const [frequency, latitude, longitude] = args as number[]
+        const cell = this.cellOf(frequency, { latitude, longitude })
+        return [BigInt(this.occupancy(cell)), this.config.maxGrantsPerChannel]
+      }
+    }
+    throw new Error(`MockMarket does not implement ${functionName}`)
+  }
+}
@@ -0,0 +1,78 @@
+import { keccak256, encodeAbiParameters, type PublicClient } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+/**
+ * Device position in microdegrees, as carried by SignalQuality records
+ */
+export interface Location {
+  latitude: number
+  longitude: number
+}
+
+interface CellCount {
+  active: number
+  capacity: number
+}
+
+/**
+ * SpectrumMarket channel-cell occupancy as seen during one auction tick.
+ *
+ * Each channel-cell is read once with channelOccupancy; slots reserved during
+ * the tick count against it, so a batch never asks for more grants than the
+ * contract would accept.
+ */
+export class OccupancyView {
+  private cells = new Map<string, Promise<CellCount>>()
+
+  private constructor(
+    private publicClient: PublicClient,
+    private contract: `0x${string}`,
+    private cellSize: number
+  ) {}
+
+  static async load(publicClient: PublicClient, contract: `0x${string}`): Promise<OccupancyView> {
+    const cellSize = await publicClient.readContract({
+      address: contract,
+      abi: SpectrumMarketABI,
+      functionName: 'cellSize'
+    })
+    return new OccupancyView(publicClient, contract, cellSize)
+  }
+
+  /**
+   * Take a slot on `frequency` in the cell containing `location`; false when full
+   */
+  async reserve(frequency: number, location: Location): Promise<boolean> {
+    const key = this.cellKey(frequency, location)
+    let count = this.cells.get(key)
+    if (!count) {
+      count = this.read(frequency, location)
+      this.cells.set(key, count)
+    }
+
+    const cell = await count
+    if (cell.active >= cell.capacity) return false
+    cell.active++
+    return true
+  }
+
+  /**
+   * Same cell id as SpectrumMarket._channelCell (floor division by cellSize)
+   */
+  private cellKey(frequency: number, { latitude, longitude }: Location): string {
+    return keccak256(encodeAbiParameters(
+      [{ type: 'uint32' }, { type: 'int256' }, { type: 'int256' }],
+      [frequency, BigInt(Math.floor(latitude / this.cellSize)), BigInt(Math.floor(longitude / this.cellSize))]
+    ))
+  }
+
+  private async read(frequency: number, { latitude, longitude }: Location): Promise<CellCount> {
+    const [active, capacity] = await this.publicClient.readContract({
+      address: this.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'channelOccupancy',
+      args: [frequency, latitude, longitude]
+    })
+    return { active: Number(active), capacity: Number(capacity) }
+  }
+}
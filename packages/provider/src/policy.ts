@@ -0,0 +1,236 @@
+import { readFileSync } from 'fs'
+import { parseEther } from 'viem'
+import type { SignalData } from '../../../shared/schema.js'
+
+export type PolicyAction = 'grant' | 'revoke' | 'extend' | 'ignore'
+
+const ACTIONS: PolicyAction[] = ['grant', 'revoke', 'extend', 'ignore']
+
+// Contract limit (see SpectrumMarket.grantAccess). Payment floors are set on
+// chain and change at runtime, so they are applied in evaluate (see setFloor).
+const MAX_DURATION = 3600
+
+/**
+ * Conditions a reading must satisfy for a rule to match.
+ * Every field is optional; an empty condition set matches everything.
+ */
+export interface PolicyConditions {
+  minSnr?: number
+  maxSnr?: number
+  minInterference?: number
+  maxInterference?: number
+  minBidPrice?: string          // wei
+  maxBidPrice?: string          // wei
+  frequencies?: number[]        // MHz
+  devices?: string[]            // bytes32 deviceId allowlist
+  excludeDevices?: string[]     // bytes32 deviceId denylist
+  area?: {                      // bounding box in microdegrees
+    minLatitude: number
+    maxLatitude: number
+    minLongitude: number
+    maxLongitude: number
+  }
+}
+
+export interface PolicyRule {
+  name: string
+  when?: PolicyConditions
+  action: PolicyAction
+  duration?: number             // seconds
+  payment?: string              // STT, e.g. "0.001"
+}
+
+export interface PolicyConfig {
+  defaults?: {
+    duration?: number
+    payment?: string
+  }
+  rules: PolicyRule[]
+  fallback?: PolicyAction       // action when no rule matches (default: ignore)
+}
+
+export interface PolicyDecision {
+  action: PolicyAction
+  duration: number
+  payment: bigint
+  rule: string
+}
+
+interface CompiledRule {
+  name: string
+  action: PolicyAction
+  duration: number
+  payment: bigint
+  matches: (signal: SignalData, leniency: number) => boolean
+}
+
+/**
+ * Rule-based admission engine for spectrum grants.
+ * Rules are evaluated top to bottom and the first match wins.
+ */
+export class PolicyEngine {
+  private rules: CompiledRule[]
+  private fallback: PolicyDecision
+  private floors = new Map<number, bigint>()
+
+  constructor(config: PolicyConfig) {
+    const defaultDuration = config.defaults?.duration ?? 10
+    const defaultPayment = config.defaults?.payment ?? '0.001'
+
+    if (!Array.isArray(config.rules)) {
+      throw new Error('Policy config must contain a "rules" array')
+    }
+
+    this.rules = config.rules.map((rule, i) =>
+      compileRule(rule, i, defaultDuration, defaultPayment)
+    )
+
+    const fallback = config.fallback ?? 'ignore'
+    assertAction(fallback, 'fallback')
+    this.fallback = {
+      action: fallback,
+      duration: checkDuration(defaultDuration, 'defaults'),
+      payment: checkPayment(defaultPayment, 'defaults'),
+      rule: 'fallback'
+    }
+  }
+
+  /**
+   * Load a policy from a JSON file
+   */
+  static fromFile(path: string): PolicyEngine {
+    let config: PolicyConfig
+    try {
+      config = JSON.parse(readFileSync(path, 'utf8'))
+    } catch (error: any) {
+      throw new Error(`Failed to load policy file ${path}: ${error.message}`)
+    }
+    return new PolicyEngine(config)
+  }
+
+  /**
+   * Policy equivalent to the original hardcoded rule: grant above minSnr, revoke below
+   */
+  static minSnr(minSnr: number): PolicyEngine {
+    return new PolicyEngine({
+      rules: [{ name: 'min-snr', when: { minSnr }, action: 'grant' }],
+      fallback: 'revoke'
+    })
+  }
+
+  get ruleCount(): number {
+    return this.rules.length
+  }
+
+  /**
+   * Record the payment floor in force on a frequency (SpectrumMarket.minPrice);
+   * decisions on it never offer less
+   */
+  setFloor(frequency: number, floor: bigint) {
+    this.floors.set(frequency, floor)
+  }
+
+  /**
+   * First matching rule's decision. `leniency` (dB) widens the SNR bounds of
+   * rules that keep access (grant, extend) and narrows those of the rest, so
+   * a device holding a grant keeps it through small dips whichever way a
+   * rule's bounds point.
+   */
+  evaluate(signal: SignalData, leniency = 0): PolicyDecision {
+    const floor = this.floors.get(signal.frequency) ?? 0n
+    for (const rule of this.rules) {
+      if (rule.matches(signal, leniency)) {
+        return {
+          action: rule.action,
+          duration: rule.duration,
+          payment: rule.payment > floor ? rule.payment : floor,
+          rule: rule.name
+        }
+      }
+    }
+    return this.fallback.payment >= floor ? this.fallback : { ...this.fallback, payment: floor }
+  }
+}
+
+function compileRule(
+  rule: PolicyRule,
+  index: number,
+  defaultDuration: number,
+  defaultPayment: string
+): CompiledRule {
+  const name = rule.name || `rule-${index}`
+  assertAction(rule.action, name)
+
+  const when = rule.when ?? {}
+  const checks: ((s: SignalData, leniency: number) => boolean)[] = []
+  const keepsAccess = rule.action === 'grant' || rule.action === 'extend'
+
+  if (when.minSnr !== undefined) {
+    checks.push((s, leniency) => s.snr >= when.minSnr! + (keepsAccess ? -leniency : leniency))
+  }
+  if (when.maxSnr !== undefined) {
+    checks.push((s, leniency) => s.snr <= when.maxSnr! + (keepsAccess ? leniency : -leniency))
+  }
+  if (when.minInterference !== undefined) checks.push(s => s.interferenceLevel >= when.minInterference!)
+  if (when.maxInterference !== undefined) checks.push(s => s.interferenceLevel <= when.maxInterference!)
+
+  if (when.minBidPrice !== undefined) {
+    const min = BigInt(when.minBidPrice)
+    checks.push(s => s.bidPrice >= min)
+  }
+  if (when.maxBidPrice !== undefined) {
+    const max = BigInt(when.maxBidPrice)
+    checks.push(s => s.bidPrice <= max)
+  }
+
+  if (when.frequencies) {
+    const frequencies = new Set(when.frequencies)
+    checks.push(s => frequencies.has(s.frequency))
+  }
+
+  if (when.devices) {
+    const devices = new Set(when.devices.map(d => d.toLowerCase()))
+    checks.push(s => devices.has(s.deviceId.toLowerCase()))
+  }
+  if (when.excludeDevices) {
+    const excluded = new Set(when.excludeDevices.map(d => d.toLowerCase()))
+    checks.push(s => !excluded.has(s.deviceId.toLowerCase()))
+  }
+
+  if (when.area) {
+    const { minLatitude, maxLatitude, minLongitude, maxLongitude } = when.area
+    checks.push(s =>
+      s.latitude >= minLatitude && s.latitude <= maxLatitude &&
+      s.longitude >= minLongitude && s.longitude <= maxLongitude
+    )
+  }
+
+  return {
+    name,
+    action: rule.action,
+    duration: checkDuration(rule.duration ?? defaultDuration, name),
+    payment: checkPayment(rule.payment ?? defaultPayment, name),
+    matches: (s, leniency) => checks.every(check => check(s, leniency))
+  }
+}
+
+function assertAction(action: string, where: string): asserts action is PolicyAction {
+  if (!ACTIONS.includes(action as PolicyAction)) {
+    throw new Error(`Policy "${where}": unknown action "${action}" (expected ${ACTIONS.join(', ')})`)
+  }
+}
+
+function checkDuration(duration: number, where: string): number {
+  if (!Number.isInteger(duration) || duration <= 0 || duration > MAX_DURATION) {
+    throw new Error(`Policy "${where}": duration must be 1-${MAX_DURATION} seconds`)
+  }
+  return duration
+}
+
+function checkPayment(payment: string, where: string): bigint {
+  const wei = parseEther(payment)
+  if (wei <= 0n) {
+    throw new Error(`Policy "${where}": payment must be above 0 STT`)
+  }
+  return wei
+}
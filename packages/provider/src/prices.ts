@@ -0,0 +1,81 @@
+import { formatEther, isAddress, parseEther } from 'viem'
+import { publicClient, walletClient } from './clients.js'
+import { loadConfig } from './config.js'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import * as dotenv from 'dotenv'
+
+dotenv.config()
+
+const config = loadConfig()
+const market = { address: config.contractAddress, abi: SpectrumMarketABI } as const
+
+const USAGE = `Usage: npm run prices -- <command>
+
+  list [MHz...]                 Payment floors (default: channels in CHANNEL_CAPACITIES)
+  set <MHz|default> <STT>       Set a channel's floor, or the default (owner or oracle)
+  oracle <address>              Let another account set floors (owner only)`
+
+async function list(frequencies: number[]) {
+  const [defaultMinPrice, oracle] = await Promise.all([
+    publicClient.readContract({ ...market, functionName: 'defaultMinPrice' }),
+    publicClient.readContract({ ...market, functionName: 'priceOracle' })
+  ])
+
+  console.log(`\n💲 SpectrumMarket ${config.contractAddress}`)
+  console.log(`   Default floor:  ${formatEther(defaultMinPrice)} STT`)
+  console.log(`   Price oracle:   ${oracle}`)
+  for (const frequency of frequencies) {
+    const floor = await publicClient.readContract({ ...market, functionName: 'minPrice', args: [frequency] })
+    console.log(`   ${frequency} MHz:`.padEnd(19) + `${formatEther(floor)} STT`)
+  }
+}
+
+async function send(label: string, write: Promise<`0x${string}`>) {
+  const hash = await write
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success') throw new Error(`${label} reverted in block ${receipt.blockNumber}`)
+  console.log(`✅ ${label} TX: ${hash} (block ${receipt.blockNumber})`)
+  if (config.explorerUrl) console.log(`   View: ${config.explorerUrl}/tx/${hash}`)
+}
+
+async function set(channel: string, price: string) {
+  const frequency = channel === 'default' ? 0 : Number(channel)
+  if (!Number.isInteger(frequency) || frequency < 0) throw new Error(`Invalid frequency "${channel}"`)
+
+  const wei = parseEther(price)
+  console.log(`💲 Setting ${frequency === 0 ? 'default' : `${frequency} MHz`} floor to ${formatEther(wei)} STT`)
+  await publicClient.simulateContract({ ...market, functionName: 'setMinPrice', args: [frequency, wei], account: walletClient.account })
+  await send('Set price', walletClient.writeContract({ ...market, functionName: 'setMinPrice', args: [frequency, wei] }))
+}
+
+async function oracle(address: string) {
+  if (!isAddress(address)) throw new Error(`Invalid address "${address}"`)
+
+  console.log(`💲 Setting price oracle to ${address}`)
+  await publicClient.simulateContract({ ...market, functionName: 'setPriceOracle', args: [address], account: walletClient.account })
+  await send('Set oracle', walletClient.writeContract({ ...market, functionName: 'setPriceOracle', args: [address] }))
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+
+  switch (command) {
+    case 'list':
+      return list(args.length > 0 ? args.map(Number) : [...config.channelCapacities.keys()])
+    case 'set':
+      if (args.length < 2) break
+      return set(args[0], args[1])
+    case 'oracle':
+      if (args.length < 1) break
+      return oracle(args[0])
+  }
+  console.log(USAGE)
+  if (command) process.exitCode = 1
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('❌', error.shortMessage ?? error.message)
+    process.exit(1)
+  })
@@ -0,0 +1,82 @@
+import type { PublicClient } from 'viem'
+import type { SealedBid } from './auction.js'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+// SignalData.interferenceLevel runs from 0 (none) to 5 (critical)
+const MAX_INTERFERENCE = 5
+
+export interface PricingConfig {
+  contract: `0x${string}`
+  basePrice: bigint           // never price below this, whatever the chain floor
+  demandWeight: number        // price added per device asking beyond capacity, per slot
+  interferenceWeight: number  // price added at critical average interference
+  maxMultiplier: number       // cap, as a multiple of the floor
+}
+
+export interface ChannelPrice {
+  frequency: number
+  floor: bigint               // max(basePrice, SpectrumMarket.minPrice)
+  demand: number              // devices bidding this round
+  interference: number        // mean interferenceLevel of those devices
+  price: bigint
+}
+
+/**
+ * Sets each channel's reserve price from live demand.
+ *
+ * The floor is scaled up with the excess of bidders over capacity and with
+ * their mean interference, then capped at the lowest bid that still wins a
+ * slot: congestion raises what winners pay but never leaves a slot empty.
+ */
+export class CongestionPricer {
+  constructor(
+    private publicClient: PublicClient,
+    private config: PricingConfig
+  ) {}
+
+  /**
+   * Price every channel that has bids this round, reading its on-chain floor
+   */
+  async quote(
+    bids: Map<number, SealedBid[]>,
+    capacityOf: (frequency: number) => number
+  ): Promise<Map<number, ChannelPrice>> {
+    const quotes = await Promise.all([...bids].map(async ([frequency, channelBids]) =>
+      this.price(frequency, channelBids, capacityOf(frequency), await this.floorOf(frequency))
+    ))
+    return new Map(quotes.map(quote => [quote.frequency, quote]))
+  }
+
+  private price(frequency: number, bids: SealedBid[], capacity: number, floor: bigint): ChannelPrice {
+    const demand = bids.length
+    const interference = demand > 0
+      ? bids.reduce((sum, bid) => sum + bid.interferenceLevel, 0) / demand
+      : 0
+
+    const excess = capacity > 0 ? Math.max(0, demand / capacity - 1) : 0
+    const multiplier = Math.min(
+      this.config.maxMultiplier,
+      1 + this.config.demandWeight * excess + this.config.interferenceWeight * interference / MAX_INTERFERENCE
+    )
+    const congestion = floor * BigInt(Math.round(multiplier * 10000)) / 10000n
+
+    // Lowest bid that would still take a slot
+    const ranked = bids.map(bid => bid.bidPrice).sort((a, b) => (a > b ? -1 : a < b ? 1 : 0))
+    const marginal = ranked[Math.min(capacity, ranked.length) - 1]
+
+    let price = marginal !== undefined && marginal < congestion ? marginal : congestion
+    if (price < floor) price = floor
+
+    return { frequency, floor, demand, interference, price }
+  }
+
+  private async floorOf(frequency: number): Promise<bigint> {
+    const chainFloor = await this.publicClient.readContract({
+      address: this.config.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'minPrice',
+      args: [frequency]
+    })
+    return chainFloor > this.config.basePrice ? chainFloor : this.config.basePrice
+  }
+}
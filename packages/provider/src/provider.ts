@@ -0,0 +1,801 @@
+import { formatEther } from 'viem'
+import type { Account, Chain, PublicClient, Transport, WalletClient } from 'viem'
+import { decodeSignalData, SignalCodecError } from '../../../shared/codec.js'
+import type { SchemaVersion } from '../../../shared/schema.js'
+import type { StreamsClient } from '../../../shared/streams.js'
+import type { ProviderConfig } from './config.js'
+import { PolicyEngine } from './policy.js'
+import { Hysteresis } from './hysteresis.js'
+import { ChannelAuction, type AuctionResult } from './auction.js'
+import { CongestionPricer } from './pricing.js'
+import { StateStore, type DeviceState } from './store.js'
+import { GrantReconciler } from './reconciler.js'
+import { IngestionHub, type StreamSource } from './ingestion.js'
+import { DevicePublisherRegistry } from './registry.js'
+import { TelemetryAuthenticator } from './authenticity.js'
+import { AnomalyDetector, type Inspection } from './anomaly.js'
+import { InterferenceMap } from './interference-map.js'
+import { SignalRecorder } from './recorder.js'
+import { TransactionManager, type TxOutcome } from './tx-manager.js'
+import { RequestBook } from './requests.js'
+import { OccupancyView, type Location } from './occupancy.js'
+import { readRegistration, registrationProblem } from './registration.js'
+import {
+  acceptResults,
+  DecisionBatch,
+  grantResults,
+  renewalResults,
+  revokeResults,
+  type GrantKind
+} from './batch.js'
+
+export interface ProviderDeps {
+  publicClient: PublicClient
+  walletClient: WalletClient<Transport, Chain, Account>
+  streams: StreamsClient
+}
+
+// What settling a batched decision needs: the pending tx and, for grants, the rollback
+interface BatchContext {
+  txId: string
+  previous?: DeviceState
+  applied?: DeviceState
+}
+
+// SpectrumMarket.MAX_DURATION
+const MAX_GRANT_SECONDS = 3600
+
+const EMPTY_STATE: DeviceState = {
+  hasGrant: false,
+  grantExpires: 0,
+  grantDuration: 0,
+  frequency: 0,
+  lastSNR: 0
+}
+
+export class SpectrumProvider {
+  private store: StateStore
+  private deviceStates: Map<string, DeviceState>
+  private publicClient: PublicClient
+  private walletClient: WalletClient<Transport, Chain, Account>
+  private streams: StreamsClient
+  private txs: TransactionManager
+  private batch = new DecisionBatch<BatchContext>()
+  private requests: RequestBook
+  private timers: NodeJS.Timeout[] = []
+  private inFlight = new Set<string>()   // periodic tasks still running
+  private policy: PolicyEngine
+  private hysteresis: Hysteresis
+  private auction: ChannelAuction
+  private pricing: CongestionPricer
+  private reconciler: GrantReconciler
+  private registry: DevicePublisherRegistry
+  private authenticator: TelemetryAuthenticator
+  private anomalies: AnomalyDetector
+  private ingestion?: IngestionHub
+  private map?: InterferenceMap
+  private recorder?: SignalRecorder
+  private spoofWarnings = new Set<string>()
+  private forgeryWarnings = new Set<string>()
+  private distrusted = new Set<string>()
+  private locations = new Map<string, Location>()
+  
+  constructor(private config: ProviderConfig, deps: ProviderDeps) {
+    this.publicClient = deps.publicClient
+    this.walletClient = deps.walletClient
+    this.streams = deps.streams
+    this.store = StateStore.open(this.config.stateFile)
+    this.registry = new DevicePublisherRegistry(this.config.deviceRegistryFile)
+    this.registry.load()
+    this.authenticator = new TelemetryAuthenticator(this.publicClient, this.registry, this.store, {
+      contract: this.config.contractAddress,
+      requireSigned: this.config.requireSignedTelemetry
+    })
+    this.deviceStates = this.store.getDevices()
+    this.policy = this.config.policyFile ? PolicyEngine.fromFile(this.config.policyFile) : PolicyEngine.minSnr(this.config.minSnr)
+    this.hysteresis = new Hysteresis({
+      smoothing: this.config.snrSmoothing,
+      minHoldMs: this.config.minHoldMs,
+      maxChanges: this.config.maxAccessChanges,
+      changeWindowMs: this.config.accessChangeWindowMs
+    })
+    this.anomalies = new AnomalyDetector({
+      peerRadius: this.config.anomalyPeerRadius,
+      peerWindowMs: this.config.anomalyPeerWindowMs,
+      minPeers: this.config.anomalyMinPeers,
+      maxPeerSnrDeviation: this.config.maxPeerSnrDeviation,
+      maxPeerInterferenceDeviation: this.config.maxPeerInterferenceDeviation,
+      maxSnrJump: this.config.maxSnrJump,
+      maxClockSkewMs: this.config.maxClockSkewMs,
+      stuckReadings: this.config.stuckReadings,
+      trustPenalty: this.config.trustPenalty,
+      trustRecovery: this.config.trustRecovery
+    })
+    if (this.config.recordFile) this.recorder = new SignalRecorder(this.config.recordFile)
+    if (this.config.interferenceMapSchemaId) {
+      this.map = new InterferenceMap(this.publicClient, this.streams, {
+        contract: this.config.contractAddress,
+        schemaId: this.config.interferenceMapSchemaId,
+        windowMs: this.config.mapWindowMs
+      })
+    }
+    this.auction = new ChannelAuction({
+      reservePrice: this.config.minBidPrice,
+      defaultCapacity: this.config.channelCapacity,
+      capacities: this.config.channelCapacities
+    })
+    this.pricing = new CongestionPricer(this.publicClient, {
+      contract: this.config.contractAddress,
+      basePrice: this.config.minBidPrice,
+      demandWeight: this.config.priceDemandWeight,
+      interferenceWeight: this.config.priceInterferenceWeight,
+      maxMultiplier: this.config.priceMaxMultiplier
+    })
+    this.reconciler = new GrantReconciler(this.publicClient, {
+      contract: this.config.contractAddress,
+      provider: this.walletClient.account.address,
+      logBlockRange: this.config.logBlockRange,
+      expiryToleranceMs: 5000
+    })
+    this.requests = new RequestBook(this.publicClient, {
+      contract: this.config.contractAddress,
+      refreshMs: this.config.requestRefreshMs
+    })
+    this.txs = new TransactionManager(this.publicClient, this.walletClient, {
+      contract: this.config.contractAddress,
+      maxInFlight: this.config.txMaxInFlight,
+      confirmations: this.config.txConfirmations,
+      receiptTimeoutMs: this.config.txReceiptTimeoutMs,
+      maxAttempts: this.config.txMaxAttempts,
+      gasBumpPercent: this.config.txGasBumpPercent,
+      gasBufferPercent: this.config.txGasBufferPercent,
+      pollIntervalMs: this.config.txPollIntervalMs
+    })
+  }
+  
+  async start() {
+    console.log('🚀 Spectrum Provider Starting...')
+    console.log(`Contract: ${this.config.contractAddress}`)
+    console.log(`Schema ID: ${this.config.schemaId}`)
+    if (this.config.schemaIdV2) console.log(`Schema ID (v2): ${this.config.schemaIdV2}`)
+    if (this.config.schemaIdV3) console.log(`Schema ID (v3, signed): ${this.config.schemaIdV3}`)
+    if (this.config.requireSignedTelemetry) console.log('Unsigned telemetry: dropped')
+    if (this.config.interferenceMapSchemaId) console.log(`Interference map: ${this.config.interferenceMapSchemaId} (every ${this.config.mapPublishIntervalMs}ms, ${this.config.mapWindowMs}ms window)`)
+    console.log(`Device registry: ${this.config.deviceRegistryFile} (${this.registry.size} devices)`)
+    if (this.config.publisherAddress) console.log(`Shared publisher: ${this.config.publisherAddress}`)
+    console.log(this.config.policyFile
+      ? `Policy: ${this.config.policyFile} (${this.policy.ruleCount} rules)`
+      : `Min SNR: ${this.config.minSnr}dB`)
+    console.log(`Hysteresis: EWMA ${this.config.snrSmoothing}, revoke ${this.config.snrHysteresis}dB below grant, hold ${this.config.minHoldMs}ms, max ${this.config.maxAccessChanges} changes per ${this.config.accessChangeWindowMs}ms`)
+    console.log(`Trust: grants need ${this.config.minTrust}, -${this.config.trustPenalty} per anomaly, +${this.config.trustRecovery} per clean reading`)
+    console.log(`Reserve price: ${formatEther(this.config.minBidPrice)} STT, congestion-priced up to ${this.config.priceMaxMultiplier}x the channel floor`)
+    console.log(`Channel capacity: ${this.config.channelCapacity} (auction every ${this.config.auctionIntervalMs}ms)`)
+    console.log(`Funding: ${this.config.selfFundedGrants ? 'device requests, self-funded otherwise' : 'device requests only'}`)
+    console.log(`State file: ${this.config.stateFile}`)
+    if (this.config.recordFile) console.log(`Recording readings to: ${this.config.recordFile}`)
+    await this.checkRegistration()
+    await this.map?.load()
+    console.log()
+    
+    this.recoverPendingTxs()
+    await this.reconcile()
+    
+    this.timers.push(setInterval(() => {
+      this.singleFlight('reconcile', () => this.reconcile())
+        .catch(error => console.error('Reconcile error:', error.message))
+    }, this.config.reconcileIntervalMs))
+    
+    this.timers.push(setInterval(() => {
+      this.singleFlight('auction', () => this.runAuction())
+        .catch(error => console.error('Auction error:', error.message))
+    }, this.config.auctionIntervalMs))
+    
+    if (this.map) {
+      this.timers.push(setInterval(() => {
+        this.publishMap().catch(error => console.error('Map publish error:', error.message))
+      }, this.config.mapPublishIntervalMs))
+    }
+    
+    // Stream new data as blocks arrive
+    this.startIngestion()
+  }
+  
+  /**
+   * Refuse to run unless this wallet is a staked, active provider
+   */
+  private async checkRegistration() {
+    const address = this.walletClient.account.address
+    const registration = await readRegistration(this.publicClient, this.config.contractAddress, address)
+    
+    const problem = registrationProblem(registration)
+    if (problem) throw new Error(`Provider ${address} cannot issue grants: ${problem}`)
+    
+    console.log(`Stake: ${formatEther(registration.stake)} STT (min ${formatEther(registration.minStake)} STT)`)
+    if (registration.paused) console.warn('⚠️ Market is paused; grants will fail until the owner resumes it')
+  }
+  
+  private startIngestion() {
+    console.log('👂 Listening for device signals...\n')
+    
+    this.ingestion = new IngestionHub(
+      this.streams,
+      this.publicClient,
+      {
+        batchSize: this.config.ingestBatchSize,
+        bufferSize: this.config.ingestBufferSize,
+        fallbackIntervalMs: this.config.ingestFallbackMs
+      },
+      source => ({
+        handle: record => this.handleSignalData(record, source.publisher, this.schemaVersionOf(source)),
+        commit: index => this.store.setCursor(source.schemaId, source.publisher, index),
+        waitForCapacity: () => this.txs.waitForCapacity(this.config.maxPendingTx)
+      }),
+      source => {
+        const cursor = this.store.getCursor(source.schemaId, source.publisher)
+        return cursor !== undefined ? cursor + 1n : 0n
+      }
+    )
+    
+    this.ingestion.start()
+    this.ingestion.sync(this.sources())
+    
+    this.registry.onChange(() => this.ingestion?.sync(this.sources()))
+    this.registry.watch(this.config.registryReloadMs)
+  }
+  
+  /**
+   * Every publisher on every schema version, so v1, v2 and v3 fleets run side by side
+   */
+  private sources(): StreamSource[] {
+    const schemaIds = [this.config.schemaId, this.config.schemaIdV2, this.config.schemaIdV3]
+      .filter((schemaId): schemaId is `0x${string}` => schemaId !== undefined)
+    return schemaIds.flatMap(schemaId =>
+      this.publishers().map(publisher => ({ schemaId, publisher }))
+    )
+  }
+  
+  /**
+   * Registry publishers plus the legacy shared publisher, if set
+   */
+  private publishers(): `0x${string}`[] {
+    const publishers = this.registry.publishers()
+    const shared = this.config.publisherAddress
+    if (shared && !publishers.some(p => p.toLowerCase() === shared.toLowerCase())) {
+      publishers.push(shared)
+    }
+    return publishers
+  }
+  
+  private schemaVersionOf(source: StreamSource): SchemaVersion {
+    const schemaId = source.schemaId.toLowerCase()
+    if (schemaId === this.config.schemaIdV3?.toLowerCase()) return 3
+    if (schemaId === this.config.schemaIdV2?.toLowerCase()) return 2
+    return 1
+  }
+  
+  /**
+   * A registered device may only be published by its own wallet; unregistered
+   * devices are accepted only from the shared publisher.
+   */
+  private isAuthorizedPublisher(deviceId: string, publisher: `0x${string}`): boolean {
+    const expected = this.registry.publisherOf(deviceId) ?? this.config.publisherAddress
+    return expected !== undefined && expected.toLowerCase() === publisher.toLowerCase()
+  }
+  
+  stop() {
+    this.timers.forEach(timer => clearInterval(timer))
+    this.timers = []
+    this.ingestion?.stop()
+    this.registry.unwatch()
+  }
+  
+  /**
+   * Trust in a device's telemetry, from 0 to 1
+   */
+  trustOf(deviceId: string): number {
+    return this.anomalies.trustOf(deviceId)
+  }
+  
+  /**
+   * Resolves once every queued transaction has settled
+   */
+  idle(): Promise<void> {
+    return this.txs.idle()
+  }
+  
+  /**
+   * Run a periodic task unless its previous run is still going; a tick that
+   * lands mid-run is skipped rather than overlapping it
+   */
+  private async singleFlight(name: string, task: () => Promise<void>) {
+    if (this.inFlight.has(name)) return
+    this.inFlight.add(name)
+    try {
+      await task()
+    } finally {
+      this.inFlight.delete(name)
+    }
+  }
+  
+  private setDeviceState(deviceId: string, state: DeviceState) {
+    this.deviceStates.set(deviceId, state)
+    this.store.putDevice(deviceId, state)
+  }
+  
+  /**
+   * Transactions that were in flight at the last shutdown have an unknown
+   * outcome; forget the optimistic state so the device goes through the
+   * auction again.
+   */
+  private recoverPendingTxs() {
+    const pending = this.store.getPendingTxs()
+    if (pending.length === 0) return
+    
+    console.log(`⚠️ ${pending.length} transaction(s) were in flight at last shutdown`)
+    
+    for (const tx of pending) {
+      console.log(`   ${tx.op.toUpperCase()} | Device: ${tx.deviceId.slice(0, 10)}... | Sent: ${new Date(tx.createdAt).toISOString()}`)
+      const state = this.deviceStates.get(tx.deviceId)
+      this.setDeviceState(tx.deviceId, { ...EMPTY_STATE, lastSNR: state?.lastSNR ?? 0 })
+      this.store.completeTx(tx.id)
+    }
+    console.log()
+  }
+  
+  /**
+   * Bring local grant state in line with SpectrumMarket. Devices with a tx in
+   * flight or a grant issued within the grace window are skipped, since the
+   * chain may simply not have caught up yet. Reading the chain takes a while,
+   * so a correction is only applied if the device's grant state is still
+   * the one it was compared against.
+   */
+  private async reconcile() {
+    const checkpointKey = `reconciler:${this.config.contractAddress.toLowerCase()}`
+    const lastScanned = this.store.getCheckpoint(checkpointKey)
+    const fromBlock = lastScanned !== undefined
+      ? lastScanned + 1n
+      : await this.defaultScanStart()
+    
+    const now = Date.now()
+    const skip = new Set<string>(this.store.getPendingTxs().map(tx => tx.deviceId))
+    for (const [deviceId, state] of this.deviceStates) {
+      const grantedAt = state.grantExpires - state.grantDuration * 1000
+      if (state.hasGrant && now - grantedAt < this.config.reconcileGraceMs) skip.add(deviceId)
+    }
+    
+    const { states, drift: found, scannedTo } = await this.reconciler.reconcile(new Map(this.deviceStates), fromBlock, skip)
+    
+    // Decisions made during the scan are newer than what the chain showed
+    const queued = new Set<string>(this.store.getPendingTxs().map(tx => tx.deviceId))
+    const drift = found.filter(entry =>
+      !queued.has(entry.deviceId) && sameGrant(this.deviceStates.get(entry.deviceId) ?? EMPTY_STATE, entry.local)
+    )
+    
+    for (const entry of drift) {
+      const local = entry.local.hasGrant ? `grant until ${new Date(entry.local.grantExpires).toISOString()}` : 'no grant'
+      const chain = entry.chain.canTransmit
+        ? `grant until ${new Date(entry.chain.expiresAt).toISOString()} by ${entry.chain.provider.slice(0, 10)}...`
+        : 'no grant'
+      console.log(`🔧 DRIFT | Device: ${entry.deviceId.slice(0, 10)}... | ${entry.kind} | local: ${local} | chain: ${chain}`)
+    }
+    for (const { deviceId } of drift) {
+      const current = this.deviceStates.get(deviceId)
+      this.setDeviceState(deviceId, { ...states.get(deviceId)!, lastSNR: current?.lastSNR ?? 0 })
+    }
+    
+    this.store.setCheckpoint(checkpointKey, scannedTo)
+    console.log(`🔍 Reconciled ${this.deviceStates.size} devices up to block ${scannedTo} (${drift.length} drifted)`)
+  }
+  
+  private async defaultScanStart(): Promise<bigint> {
+    if (this.config.reconcileFromBlock !== undefined) return this.config.reconcileFromBlock
+    const latest = await this.publicClient.getBlockNumber()
+    return latest > this.config.reconcileLookbackBlocks ? latest - this.config.reconcileLookbackBlocks : 0n
+  }
+  
+  private async handleSignalData(
+    record: unknown,
+    publisher: `0x${string}`,
+    version: SchemaVersion
+  ) {
+  try {
+    let signal
+    try {
+      signal = decodeSignalData(record, version)
+    } catch (error) {
+      if (error instanceof SignalCodecError) {
+        console.warn(`⚠️ Dropping malformed record from ${publisher.slice(0, 10)}...: ${error.message}`)
+        return
+      }
+      throw error
+    }
+    
+    const deviceId = signal.deviceId as `0x${string}`
+    const { snr, bidPrice } = signal
+    
+    if (!this.isAuthorizedPublisher(deviceId, publisher)) {
+      const key = `${deviceId}:${publisher}`
+      if (!this.spoofWarnings.has(key)) {
+        this.spoofWarnings.add(key)
+        console.warn(`🚫 Ignoring ${deviceId.slice(0, 10)}... from unregistered publisher ${publisher}`)
+      }
+      return
+    }
+    
+    const now = Date.now()
+    
+    // Old readings (e.g. first run against a long stream) must not trigger grants
+    if (now - signal.timestamp > this.config.maxSignalAgeMs) {
+      return
+    }
+    
+    // Unsigned, forged and replayed readings never reach the grant logic
+    const forgery = await this.authenticator.problem(signal)
+    if (forgery) {
+      const key = `${deviceId}:${forgery}`
+      if (!this.forgeryWarnings.has(key)) {
+        this.forgeryWarnings.add(key)
+        console.warn(`🚫 Dropping ${deviceId.slice(0, 10)}... from ${publisher.slice(0, 10)}...: ${forgery}`)
+      }
+      return
+    }
+    this.recorder?.record({ receivedAt: now, publisher, version, signal })
+    
+    // Misreporting costs trust; replayed or future-dated readings are not acted on
+    const inspection = this.anomalies.inspect(signal, now)
+    if (inspection.drop) {
+      const reason = inspection.anomalies.includes('skew') ? 'timestamp ahead of our clock' : 'replayed timestamp'
+      const key = `${deviceId}:${reason}`
+      if (!this.forgeryWarnings.has(key)) {
+        this.forgeryWarnings.add(key)
+        console.warn(`🚫 Dropping ${deviceId.slice(0, 10)}... from ${publisher.slice(0, 10)}...: ${reason}`)
+      }
+      return
+    }
+    this.logTrust(deviceId, inspection)
+    // Only trusted readings shape the map others will read
+    if (this.map && inspection.trust >= this.config.minTrust) this.map.record(signal, now)
+    
+    const currentState = this.deviceStates.get(deviceId) || { ...EMPTY_STATE }
+    // Memory only: writing the store on every reading would block the loop;
+    // lastSNR is persisted with the device's next grant change
+    this.deviceStates.set(deviceId, { ...currentState, lastSNR: snr })
+    this.locations.set(deviceId, { latitude: signal.latitude, longitude: signal.longitude })
+    
+    // Decide on the smoothed reading; holders are judged snrHysteresis dB more
+    // leniently so the revoke threshold sits below the grant threshold
+    const grantActive = currentState.hasGrant && currentState.grantExpires >= now
+    const smoothed = this.hysteresis.smooth(signal)
+    const decision = this.policy.evaluate(smoothed, grantActive ? this.config.snrHysteresis : 0)
+    
+    // Grant/extend requests become sealed bids; the auction decides who gets the channel.
+    // A device's open request is what it will actually pay, so it replaces the
+    // telemetry bid; holders without one still bid to keep their slot.
+    if (decision.action === 'grant' || decision.action === 'extend') {
+      // A new grant is an access change too; a device held down sits the round out
+      if (!grantActive && !this.hysteresis.canChange(deviceId, now)) return
+      // Untrusted devices win nothing; a grant they hold is left to lapse
+      if (inspection.trust < this.config.minTrust) {
+        this.auction.withdraw(deviceId)
+        return
+      }
+      const request = await this.requests.get(deviceId)
+      if (request || grantActive || this.config.selfFundedGrants) {
+        this.auction.submit({
+          deviceId,
+          frequency: request?.frequency ?? signal.frequency,
+          bidPrice: request?.bid ?? bidPrice,
+          interferenceLevel: smoothed.interferenceLevel,
+          decision
+        })
+      }
+    }
+    
+    // REVOKE by policy bypasses the auction
+    else if (decision.action === 'revoke') {
+      this.auction.withdraw(deviceId)
+      
+      // A held-down grant is not renewed either, so it lapses without a tx
+      if (grantActive && this.hysteresis.canChange(deviceId, now)) {
+        console.log(`🛑 REVOKE | Device: ${deviceId.slice(0, 10)}... | SNR: ${snr}dB (avg ${smoothed.snr}dB) | Rule: ${decision.rule}`)
+        this.revoke(deviceId, snr)
+      }
+    }
+    
+  } catch (error: any) {
+    console.error('Error handling signal:', error.message)
+  }
+}
+  
+  /**
+   * Log a device crossing the trust threshold, either way
+   */
+  private logTrust(deviceId: `0x${string}`, inspection: Inspection) {
+    const trust = inspection.trust.toFixed(2)
+    if (inspection.trust < this.config.minTrust && !this.distrusted.has(deviceId)) {
+      this.distrusted.add(deviceId)
+      console.warn(`⚠️ DISTRUST | Device: ${deviceId.slice(0, 10)}... | Trust: ${trust} | ${inspection.anomalies.join(', ')}`)
+    } else if (inspection.trust >= this.config.minTrust && this.distrusted.delete(deviceId)) {
+      console.log(`✅ TRUSTED | Device: ${deviceId.slice(0, 10)}... | Trust: ${trust}`)
+    }
+  }
+  
+  private async publishMap() {
+    const cells = await this.map!.publish()
+    if (cells.length === 0) return
+    const channels = [...new Set(cells.map(cell => cell.frequency))].map(frequency => `${frequency} MHz`)
+    console.log(`🗺️ MAP | ${cells.length} cells published | ${channels.join(', ')}`)
+  }
+  
+  /**
+   * Price and settle the current round: grant to winners, revoke outbid
+   * holders, then send everything decided since the last tick as one batch.
+   * New grants also need a free slot in their channel-cell on chain.
+   */
+  private async runAuction() {
+    const prices = await this.pricing.quote(this.auction.demand(), frequency => this.auction.capacityOf(frequency))
+    for (const quote of prices.values()) this.policy.setFloor(quote.frequency, quote.floor)
+    const results = this.auction.settle(new Map([...prices].map(([frequency, quote]) => [frequency, quote.price])))
+    const now = Date.now()
+    const occupancy = results.some(result => result.winners.length > 0)
+      ? await OccupancyView.load(this.publicClient, this.config.contractAddress)
+      : undefined
+    
+    for (const result of results) {
+      this.logAuction(result)
+      
+      for (const award of result.winners) {
+        const state = this.deviceStates.get(award.deviceId) || { ...EMPTY_STATE }
+        const remaining = state.hasGrant ? state.grantExpires - now : 0
+        // A device already granted on this channel keeps its slot
+        const holdsSlot = remaining > 0 && state.frequency === result.frequency
+        
+        // The device only posts a request when it needs access, so an open one is always served
+        const request = this.requests.peek(award.deviceId)
+        if (request) {
+          if (!holdsSlot && !(await occupancy!.reserve(result.frequency, request))) {
+            this.logCellFull(award.deviceId, result.frequency)
+            continue
+          }
+          const price = award.payment < request.bid ? award.payment : request.bid
+          console.log(`⚡ ACCEPT | Device: ${award.deviceId.slice(0, 10)}... | Bid: ${Number(request.bid)/1e15}mSTT | Pays: ${Number(price)/1e15}mSTT | Rule: ${award.decision.rule}`)
+          this.requests.invalidate(award.deviceId)
+          this.grant(award.deviceId, result.frequency, request, request.duration, price, 'accept')
+          continue
+        }
+        
+        // Without a request we can only pay ourselves, and never on top of a device-funded grant
+        if (!this.config.selfFundedGrants || (state.deviceFunded && remaining > 0)) continue
+        const sameChannel = state.frequency === result.frequency
+        
+        // Extend shortly before expiry so access never lapses; 'extend' renews at half-life
+        const renewAt = award.decision.action === 'extend'
+          ? Math.max(this.config.renewMarginMs, state.grantDuration * 500)
+          : this.config.renewMarginMs
+        const renew = sameChannel && remaining > 0
+        const location = this.locations.get(award.deviceId)
+        if (!location) continue
+        
+        if (!renew || remaining < renewAt) {
+          if (!renew && !(await occupancy!.reserve(result.frequency, location))) {
+            this.logCellFull(award.deviceId, result.frequency)
+            continue
+          }
+          
+          // The contract caps a grant at MAX_GRANT_SECONDS from now, extensions included
+          const duration = renew
+            ? Math.min(award.decision.duration, MAX_GRANT_SECONDS - Math.ceil(remaining / 1000))
+            : award.decision.duration
+          if (duration <= 0) continue
+          
+          console.log(`⚡ ${renew ? 'RENEW' : 'GRANT'} | Device: ${award.deviceId.slice(0, 10)}... | Bid: ${Number(award.bidPrice)/1e15}mSTT | Pays: ${Number(award.payment)/1e15}mSTT | Rule: ${award.decision.rule}`)
+          this.grant(award.deviceId, result.frequency, location, duration, award.payment, renew ? 'renew' : 'grant')
+        }
+      }
+      
+      for (const loss of result.losers) {
+        const state = this.deviceStates.get(loss.deviceId)
+        if (state?.hasGrant && state.grantExpires >= now && state.frequency === result.frequency) {
+          console.log(`🛑 REVOKE | Device: ${loss.deviceId.slice(0, 10)}... | ${loss.reason} at ${Number(loss.bidPrice)/1e15}mSTT`)
+          this.revoke(loss.deviceId, state.lastSNR)
+        }
+      }
+    }
+    
+    this.flushBatch()
+  }
+  
+  private logCellFull(deviceId: `0x${string}`, frequency: number) {
+    console.log(`🚫 CELL FULL | Device: ${deviceId.slice(0, 10)}... | ${frequency} MHz has no free slot in its cell`)
+  }
+  
+  private logAuction(result: AuctionResult) {
+    const filled = `${result.winners.length}/${result.capacity}`
+    console.log(`🔨 AUCTION | ${result.frequency} MHz | ${filled} slots | Reserve: ${Number(result.reservePrice)/1e15}mSTT | Clearing: ${Number(result.clearingPrice)/1e15}mSTT | Losers: ${result.losers.length}`)
+  }
+  
+  /**
+   * Queue a grant, renewal or request acceptance for this tick's batch; local
+   * state is updated optimistically and rolled back if the device's item fails
+   */
+  private grant(
+    deviceId: `0x${string}`,
+    frequency: number,
+    location: Location,
+    duration: number,
+    payment: bigint,
+    kind: GrantKind = 'grant'
+  ) {
+    const previous = this.deviceStates.get(deviceId) || { ...EMPTY_STATE }
+    if (!previous.hasGrant || previous.grantExpires < Date.now()) this.hysteresis.recordChange(deviceId)
+    const applied: DeviceState = {
+      hasGrant: true,
+      grantExpires: (kind === 'renew' ? previous.grantExpires : Date.now()) + duration * 1000,
+      grantDuration: duration,
+      frequency,
+      lastSNR: previous.lastSNR,
+      deviceFunded: kind === 'accept'
+    }
+    this.setDeviceState(deviceId, applied)
+    
+    const txId = this.store.addPendingTx({
+      op: kind,
+      deviceId,
+      frequency,
+      duration,
+      payment: payment.toString()
+    })
+    
+    const superseded = this.batch.addGrant(
+      { deviceId, frequency, duration, payment, kind, latitude: location.latitude, longitude: location.longitude },
+      { txId, previous, applied }
+    )
+    if (superseded) this.store.completeTx(superseded.txId)
+  }
+  
+  private revoke(deviceId: `0x${string}`, snr: number) {
+    this.hysteresis.recordChange(deviceId)
+    this.setDeviceState(deviceId, { ...EMPTY_STATE, lastSNR: snr })
+    const txId = this.store.addPendingTx({ op: 'revoke', deviceId })
+    
+    const superseded = this.batch.addRevoke(deviceId, { txId })
+    if (superseded) this.store.completeTx(superseded.txId)
+  }
+  
+  /**
+   * Submit this tick's decisions, one tx per chunk, and settle every device
+   * from the per-item events. Revokes go first so freed slots are visible
+   * to the grants behind them.
+   */
+  private flushBatch() {
+    if (this.batch.size === 0) return
+    const { grants, renewals, accepts, revokes } = this.batch.drain(this.config.batchMaxSize)
+    
+    for (const chunk of revokes) {
+      const deviceIds = chunk.map(entry => entry.item)
+      console.log(`  📤 Sending batch revoke (${deviceIds.length} devices)`)
+      
+      this.txs.submit({
+        functionName: 'batchRevokeAccess',
+        args: [deviceIds],
+        key: 'batch'
+      }).then(outcome => {
+        this.logBatchTx('Revoke', outcome)
+        revokeResults(deviceIds, outcome).forEach((result, i) => {
+          if (result.ok) {
+            const refund = result.refund ? ` | Refund: ${formatEther(result.refund)} STT` : ''
+            console.log(`  ✅ Revoked ${result.deviceId.slice(0, 10)}...${refund}`)
+          } else if (outcome.status === 'confirmed') {
+            // Already expired or not ours: nothing left to revoke either way
+            console.warn(`  ⚠️ Revoke skipped: ${result.detail} | Device: ${result.deviceId.slice(0, 10)}...`)
+          } else {
+            // Grant is still live on chain; the next reconcile picks it back up
+            console.error(`  ❌ Revoke ${result.detail} | Device: ${result.deviceId.slice(0, 10)}...`)
+          }
+          this.store.completeTx(chunk[i].context.txId)
+        })
+      })
+    }
+    
+    for (const chunk of accepts) {
+      const items = chunk.map(entry => entry.item)
+      console.log(`  📤 Sending batch accept (${items.length} requests)`)
+      
+      this.txs.submit({
+        functionName: 'batchAcceptRequests',
+        args: [items.map(item => ({ deviceId: item.deviceId, price: item.payment }))],
+        key: 'batch'
+      }).then(outcome => {
+        this.logBatchTx('Accept', outcome)
+        acceptResults(items, outcome).forEach((result, i) => {
+          const { txId, previous, applied } = chunk[i].context
+          if (result.ok) {
+            console.log(`  ✅ Accepted ${result.deviceId.slice(0, 10)}... | ${items[i].frequency} MHz for ${items[i].duration}s at ${formatEther(items[i].payment)} STT`)
+          } else {
+            // Request withdrawn, expired or taken by another provider
+            console.error(`  ❌ Accept ${result.detail} | Device: ${result.deviceId.slice(0, 10)}...`)
+            this.rollbackGrant(result.deviceId, previous!, applied!)
+          }
+          this.store.completeTx(txId)
+        })
+      })
+    }
+    
+    for (const chunk of grants) {
+      const items = chunk.map(entry => entry.item)
+      const value = items.reduce((sum, item) => sum + item.payment, 0n)
+      console.log(`  📤 Sending batch grant (${items.length} devices, ${formatEther(value)} STT)`)
+      
+      this.txs.submit({
+        functionName: 'batchGrantAccess',
+        args: [items],
+        value,
+        key: 'batch'
+      }).then(outcome => {
+        this.logBatchTx('Grant', outcome)
+        grantResults(items, outcome).forEach((result, i) => {
+          const { txId, previous, applied } = chunk[i].context
+          if (result.ok) {
+            console.log(`  ✅ Granted ${result.deviceId.slice(0, 10)}... | ${items[i].frequency} MHz for ${items[i].duration}s`)
+          } else {
+            console.error(`  ❌ Grant ${result.detail} | Device: ${result.deviceId.slice(0, 10)}...`)
+            this.rollbackGrant(result.deviceId, previous!, applied!)
+          }
+          this.store.completeTx(txId)
+        })
+      })
+    }
+    
+    for (const chunk of renewals) {
+      const items = chunk.map(entry => entry.item)
+      const value = items.reduce((sum, item) => sum + item.payment, 0n)
+      console.log(`  📤 Sending batch renewal (${items.length} devices, ${formatEther(value)} STT)`)
+      
+      this.txs.submit({
+        functionName: 'batchExtendGrant',
+        args: [items],
+        value,
+        key: 'batch'
+      }).then(outcome => {
+        this.logBatchTx('Renewal', outcome)
+        renewalResults(items, outcome).forEach((result, i) => {
+          const { txId, previous, applied } = chunk[i].context
+          if (result.ok) {
+            console.log(`  ✅ Renewed ${result.deviceId.slice(0, 10)}... | +${items[i].duration}s`)
+          } else {
+            // A lapsed grant fails here; the next round grants it afresh
+            console.error(`  ❌ Renewal ${result.detail} | Device: ${result.deviceId.slice(0, 10)}...`)
+            this.rollbackGrant(result.deviceId, previous!, applied!)
+          }
+          this.store.completeTx(txId)
+        })
+      })
+    }
+  }
+  
+  private logBatchTx(label: string, outcome: TxOutcome) {
+    if (outcome.status !== 'confirmed') return
+    console.log(`  ✅ ${label} batch TX: ${outcome.hash.slice(0, 10)}... (block ${outcome.receipt.blockNumber})`)
+    if (this.config.explorerUrl) console.log(`     View: ${this.config.explorerUrl}/tx/${outcome.hash}`)
+  }
+  
+  /**
+   * Undo an optimistic grant, unless a newer decision already replaced it
+   */
+  private rollbackGrant(deviceId: `0x${string}`, previous: DeviceState, applied: DeviceState) {
+    const current = this.deviceStates.get(deviceId)
+    if (!current || current.grantExpires !== applied.grantExpires) return
+    this.setDeviceState(deviceId, { ...previous, lastSNR: current.lastSNR })
+  }
+
+}
+
+/**
+ * Same grant on both sides, whatever the last reading was
+ */
+function sameGrant(a: DeviceState, b: DeviceState): boolean {
+  return a.hasGrant === b.hasGrant &&
+    a.grantExpires === b.grantExpires &&
+    a.frequency === b.frequency &&
+    Boolean(a.deviceFunded) === Boolean(b.deviceFunded)
+}
@@ -0,0 +1,200 @@
+import type { PublicClient } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import type { DeviceState } from './store.js'
+
+export type DriftKind =
+  | 'unknown-grant'       // chain has our active grant, local state does not
+  | 'phantom-grant'       // local state has a grant the chain does not (failed tx, expired)
+  | 'foreign-grant'       // another provider holds the device's grant
+  | 'expiry-mismatch'     // both agree on a grant but not on when it ends
+  | 'frequency-mismatch'  // both agree on a grant but not on its channel
+
+export interface Drift {
+  deviceId: `0x${string}`
+  kind: DriftKind
+  local: DeviceState
+  chain: ChainGrant
+}
+
+export interface ChainGrant {
+  provider: `0x${string}`
+  paidAmount: bigint
+  payer: `0x${string}`
+  frequency: number
+  expiresAt: number       // ms, block clock
+  canTransmit: boolean
+}
+
+export interface ReconcileResult {
+  states: Map<string, DeviceState>
+  drift: Drift[]
+  scannedTo: bigint
+}
+
+export interface ReconcilerConfig {
+  contract: `0x${string}`
+  provider: `0x${string}`
+  logBlockRange: bigint   // max blocks per eth_getLogs call
+  expiryToleranceMs: number
+}
+
+const EMPTY_STATE: DeviceState = {
+  hasGrant: false,
+  grantExpires: 0,
+  grantDuration: 0,
+  frequency: 0,
+  lastSNR: 0
+}
+
+/**
+ * Rebuilds the provider's view of its grants from SpectrumMarket.
+ *
+ * Devices are discovered from local state plus AccessGranted/AccessRevoked
+ * logs emitted for this provider; each is then checked with getGrant and
+ * canTransmit, which are authoritative.
+ */
+export class GrantReconciler {
+  constructor(
+    private publicClient: PublicClient,
+    private config: ReconcilerConfig
+  ) {}
+
+  /**
+   * Collect every deviceId this provider granted or revoked in [fromBlock, toBlock]
+   */
+  async discoverDevices(fromBlock: bigint, toBlock: bigint): Promise<Set<`0x${string}`>> {
+    const devices = new Set<`0x${string}`>()
+    const { contract, provider, logBlockRange } = this.config
+
+    for (let start = fromBlock; start <= toBlock; start += logBlockRange) {
+      const end = start + logBlockRange - 1n < toBlock ? start + logBlockRange - 1n : toBlock
+
+      const [granted, revoked] = await Promise.all([
+        this.publicClient.getContractEvents({
+          address: contract,
+          abi: SpectrumMarketABI,
+          eventName: 'AccessGranted',
+          args: { provider },
+          fromBlock: start,
+          toBlock: end
+        }),
+        this.publicClient.getContractEvents({
+          address: contract,
+          abi: SpectrumMarketABI,
+          eventName: 'AccessRevoked',
+          args: { provider },
+          fromBlock: start,
+          toBlock: end
+        })
+      ])
+
+      for (const log of [...granted, ...revoked]) {
+        if (log.args.deviceId) devices.add(log.args.deviceId)
+      }
+    }
+
+    return devices
+  }
+
+  async readGrant(deviceId: `0x${string}`): Promise<ChainGrant> {
+    const [grant, canTransmit] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.config.contract,
+        abi: SpectrumMarketABI,
+        functionName: 'getGrant',
+        args: [deviceId]
+      }),
+      this.publicClient.readContract({
+        address: this.config.contract,
+        abi: SpectrumMarketABI,
+        functionName: 'canTransmit',
+        args: [deviceId]
+      })
+    ])
+
+    return {
+      provider: grant.provider,
+      paidAmount: grant.paidAmount,
+      payer: grant.payer,
+      frequency: grant.frequency,
+      expiresAt: grant.expiresAt * 1000,
+      canTransmit
+    }
+  }
+
+  /**
+   * Compare local state with the chain and return corrected states.
+   * Devices listed in `skip` (e.g. with a tx in flight) are left alone.
+   */
+  async reconcile(
+    local: Map<string, DeviceState>,
+    fromBlock: bigint,
+    skip: Set<string> = new Set()
+  ): Promise<ReconcileResult> {
+    const toBlock = await this.publicClient.getBlockNumber()
+    const discovered = fromBlock <= toBlock
+      ? await this.discoverDevices(fromBlock, toBlock)
+      : new Set<`0x${string}`>()
+
+    const deviceIds = new Set<`0x${string}`>([
+      ...([...local.keys()] as `0x${string}`[]),
+      ...discovered
+    ])
+
+    const states = new Map<string, DeviceState>()
+    const drift: Drift[] = []
+
+    for (const deviceId of deviceIds) {
+      if (skip.has(deviceId)) continue
+
+      const chain = await this.readGrant(deviceId)
+      const current = local.get(deviceId) ?? { ...EMPTY_STATE }
+      const result = this.compare(deviceId, current, chain)
+
+      if (result) {
+        drift.push(result.drift)
+        states.set(deviceId, result.state)
+      }
+    }
+
+    return { states, drift, scannedTo: toBlock }
+  }
+
+  private compare(
+    deviceId: `0x${string}`,
+    local: DeviceState,
+    chain: ChainGrant
+  ): { drift: Drift; state: DeviceState } | null {
+    const ours = chain.provider.toLowerCase() === this.config.provider.toLowerCase()
+    const chainActive = chain.canTransmit
+    const localActive = local.hasGrant && local.grantExpires > Date.now()
+    const report = (kind: DriftKind, state: DeviceState) => ({
+      drift: { deviceId, kind, local, chain },
+      state
+    })
+
+    if (chainActive && !ours) {
+      return local.hasGrant ? report('foreign-grant', { ...EMPTY_STATE, lastSNR: local.lastSNR }) : null
+    }
+
+    const adopted: DeviceState = {
+      hasGrant: true,
+      grantExpires: chain.expiresAt,
+      // Duration isn't on-chain; remaining time is a safe lower bound
+      grantDuration: local.grantDuration || Math.max(1, Math.ceil((chain.expiresAt - Date.now()) / 1000)),
+      frequency: chain.frequency,
+      lastSNR: local.lastSNR,
+      deviceFunded: chain.payer.toLowerCase() !== chain.provider.toLowerCase()
+    }
+
+    if (chainActive && !localActive) return report('unknown-grant', adopted)
+    if (!chainActive && localActive) return report('phantom-grant', { ...EMPTY_STATE, lastSNR: local.lastSNR })
+    if (!chainActive) return null
+
+    if (local.frequency !== chain.frequency) return report('frequency-mismatch', adopted)
+    if (Math.abs(local.grantExpires - chain.expiresAt) > this.config.expiryToleranceMs) {
+      return report('expiry-mismatch', adopted)
+    }
+    return null
+  }
+}
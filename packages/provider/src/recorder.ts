@@ -0,0 +1,59 @@
+import { appendFileSync, readFileSync } from 'fs'
+import { validateSignalData } from '../../../shared/codec.js'
+import type { SchemaVersion, SignalData } from '../../../shared/schema.js'
+
+/**
+ * A decoded reading as the provider received it
+ */
+export interface RecordedReading {
+  receivedAt: number        // ms, provider clock
+  publisher: `0x${string}`
+  version: SchemaVersion
+  signal: SignalData
+}
+
+// One NDJSON line; bidPrice is a decimal string since JSON has no bigint
+interface RecordLine {
+  receivedAt: number
+  publisher: `0x${string}`
+  version: SchemaVersion
+  signal: Omit<SignalData, 'bidPrice'> & { bidPrice: string }
+}
+
+/**
+ * Appends every reading that reaches the provider's decision logic to an
+ * NDJSON file, for `npm run replay`.
+ */
+export class SignalRecorder {
+  constructor(private path: string) {}
+
+  record(reading: RecordedReading) {
+    const line: RecordLine = { ...reading, signal: { ...reading.signal, bidPrice: reading.signal.bidPrice.toString() } }
+    appendFileSync(this.path, JSON.stringify(line) + '\n')
+  }
+
+  /**
+   * Load a recording in received order. A torn final line (crash mid-write)
+   * is ignored; any other bad line is an error.
+   */
+  static load(path: string): RecordedReading[] {
+    const lines = readFileSync(path, 'utf8').split('\n').filter(line => line.trim() !== '')
+
+    const readings = lines.flatMap((text, i) => {
+      let line: RecordLine
+      try {
+        line = JSON.parse(text)
+      } catch (error: any) {
+        if (i === lines.length - 1) return []
+        throw new Error(`${path}:${i + 1}: ${error.message}`)
+      }
+      return [{
+        receivedAt: line.receivedAt,
+        publisher: line.publisher,
+        version: line.version,
+        signal: validateSignalData({ ...line.signal, bidPrice: BigInt(line.signal.bidPrice) })
+      }]
+    })
+    return readings.sort((a, b) => a.receivedAt - b.receivedAt)
+  }
+}
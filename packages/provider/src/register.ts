@@ -0,0 +1,54 @@
+import { formatEther } from 'viem'
+import { publicClient, walletClient } from './clients.js'
+import { readRegistration } from './registration.js'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import * as dotenv from 'dotenv'
+
+dotenv.config()
+
+const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS as `0x${string}`
+
+async function main() {
+  console.log('🔧 Registering provider with SpectrumMarket...')
+  console.log(`Contract: ${CONTRACT_ADDRESS}`)
+
+  const address = walletClient.account.address
+  const before = await readRegistration(publicClient, CONTRACT_ADDRESS, address)
+  const target = BigInt(process.env.PROVIDER_STAKE || before.minStake)
+
+  console.log(`Status: ${before.status} | Stake: ${formatEther(before.stake)} STT | Target: ${formatEther(target)} STT`)
+
+  if (before.status === 'suspended') {
+    throw new Error('Provider is suspended; the market owner must reinstate it')
+  }
+
+  // Registering again also cancels a pending exit
+  const topUp = target > before.stake ? target - before.stake : 0n
+  if (topUp === 0n && before.status === 'active') {
+    console.log('✅ Already registered with enough stake')
+    return
+  }
+
+  const hash = await walletClient.writeContract({
+    address: CONTRACT_ADDRESS,
+    abi: SpectrumMarketABI,
+    functionName: 'registerProvider',
+    value: topUp
+  })
+  console.log(`Transaction hash: ${hash}`)
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success') {
+    throw new Error(`registerProvider reverted in block ${receipt.blockNumber}`)
+  }
+
+  const after = await readRegistration(publicClient, CONTRACT_ADDRESS, address)
+  console.log(`✅ Registered | Status: ${after.status} | Stake: ${formatEther(after.stake)} STT`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌', error.shortMessage ?? error.message)
+    process.exit(1)
+  })
@@ -0,0 +1,57 @@
+import { formatEther, type PublicClient } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+// SpectrumMarket.ProviderStatus, by enum index
+const STATUSES = ['none', 'active', 'suspended', 'exiting'] as const
+
+export type ProviderStatus = typeof STATUSES[number]
+
+export interface ProviderRegistration {
+  status: ProviderStatus
+  stake: bigint
+  minStake: bigint
+  unlocksAt: number       // ms; only set while exiting
+  paused: boolean
+}
+
+/**
+ * Read a provider's registration, the required stake and the pause switch
+ */
+export async function readRegistration(
+  publicClient: PublicClient,
+  contract: `0x${string}`,
+  provider: `0x${string}`
+): Promise<ProviderRegistration> {
+  const [info, minStake, paused] = await Promise.all([
+    publicClient.readContract({ address: contract, abi: SpectrumMarketABI, functionName: 'providers', args: [provider] }),
+    publicClient.readContract({ address: contract, abi: SpectrumMarketABI, functionName: 'minProviderStake' }),
+    publicClient.readContract({ address: contract, abi: SpectrumMarketABI, functionName: 'paused' })
+  ])
+  const [stake, status, , unlocksAt] = info
+
+  return {
+    status: STATUSES[status] ?? 'none',
+    stake,
+    minStake,
+    unlocksAt: unlocksAt * 1000,
+    paused
+  }
+}
+
+/**
+ * Why this registration cannot issue grants, or undefined if it can
+ */
+export function registrationProblem(registration: ProviderRegistration): string | undefined {
+  switch (registration.status) {
+    case 'none':
+      return 'not registered (stake with "npm run register")'
+    case 'suspended':
+      return 'suspended by the market owner'
+    case 'exiting':
+      return `exiting; stake unlocks at ${new Date(registration.unlocksAt).toISOString()}`
+  }
+  if (registration.stake < registration.minStake) {
+    return `stake ${formatEther(registration.stake)} STT is below the ${formatEther(registration.minStake)} STT minimum`
+  }
+  return undefined
+}
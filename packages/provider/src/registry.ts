@@ -0,0 +1,95 @@
+import { existsSync, readFileSync, unwatchFile, watchFile } from 'fs'
+import { getAddress, isAddress } from 'viem'
+
+export interface DeviceRecord {
+  publisher: `0x${string}`
+  signer?: `0x${string}`    // device key that signs its v3 telemetry
+}
+
+export interface RegistryFile {
+  devices: Record<string, DeviceRecord>
+}
+
+/**
+ * Maps each deviceId to the wallet allowed to publish its telemetry and,
+ * optionally, the key that signs it. Backed by a JSON file that is re-read
+ * whenever it changes on disk.
+ */
+export class DevicePublisherRegistry {
+  private devices = new Map<string, DeviceRecord>()
+  private listeners: (() => void)[] = []
+
+  constructor(private path: string) {}
+
+  load() {
+    if (!existsSync(this.path)) {
+      this.devices.clear()
+      return
+    }
+
+    const parsed: RegistryFile = JSON.parse(readFileSync(this.path, 'utf8'))
+    const devices = new Map<string, DeviceRecord>()
+
+    for (const [deviceId, record] of Object.entries(parsed.devices ?? {})) {
+      if (!isAddress(record.publisher)) {
+        throw new Error(`Registry ${this.path}: invalid publisher for ${deviceId}`)
+      }
+      if (record.signer !== undefined && !isAddress(record.signer)) {
+        throw new Error(`Registry ${this.path}: invalid signer for ${deviceId}`)
+      }
+      devices.set(deviceId.toLowerCase(), {
+        ...record,
+        publisher: getAddress(record.publisher),
+        ...(record.signer && { signer: getAddress(record.signer) })
+      })
+    }
+
+    this.devices = devices
+  }
+
+  /**
+   * Reload on file changes; a bad edit keeps the previous registry
+   */
+  watch(intervalMs: number) {
+    watchFile(this.path, { interval: intervalMs }, () => {
+      try {
+        this.load()
+        console.log(`📒 Device registry reloaded (${this.devices.size} devices)`)
+        this.listeners.forEach(listener => listener())
+      } catch (error: any) {
+        console.error('Registry reload failed:', error.message)
+      }
+    })
+  }
+
+  unwatch() {
+    unwatchFile(this.path)
+  }
+
+  onChange(listener: () => void) {
+    this.listeners.push(listener)
+  }
+
+  get size(): number {
+    return this.devices.size
+  }
+
+  get(deviceId: string): DeviceRecord | undefined {
+    return this.devices.get(deviceId.toLowerCase())
+  }
+
+  publisherOf(deviceId: string): `0x${string}` | undefined {
+    return this.get(deviceId)?.publisher
+  }
+
+  signerOf(deviceId: string): `0x${string}` | undefined {
+    return this.get(deviceId)?.signer
+  }
+
+  /**
+   * Distinct publisher addresses across all registered devices
+   */
+  publishers(): `0x${string}`[] {
+    return [...new Set([...this.devices.values()].map(d => d.publisher))]
+  }
+}
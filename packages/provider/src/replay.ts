@@ -0,0 +1,65 @@
+import { formatEther } from 'viem'
+import { loadConfig } from './config.js'
+import { Backtest, type BacktestReport } from './backtest.js'
+import { MOCK_MARKET_DEFAULTS } from './mock-market.js'
+import { SignalRecorder } from './recorder.js'
+import * as dotenv from 'dotenv'
+
+dotenv.config()
+
+const USAGE = `Usage: npm run replay -- <recording.ndjson> [--json]
+
+  Replays a RECORD_FILE recording through the grant logic configured by the
+  environment (MIN_SNR, POLICY_FILE, SNR_*, MIN_TRUST, MIN_BID_PRICE, PRICE_*,
+  ...) against a mock SpectrumMarket, and reports per-device outcomes.
+  e.g. MIN_SNR=8 PRICE_DEMAND_WEIGHT=2 npm run replay -- readings.ndjson`
+
+function print(report: BacktestReport) {
+  const hours = (report.to - report.from) / 3_600_000
+  console.log(`\n⏪ Replay | ${new Date(report.from).toISOString()} → ${new Date(report.to).toISOString()} (${hours.toFixed(2)}h)`)
+  console.log(`   Readings: ${report.readings} (${report.stale} stale, ${report.dropped} dropped) | Auctions: ${report.auctions}\n`)
+
+  console.log('   Device        Readings  Grants  Renews  Revokes  Flaps  Coverage  Trust   Spend (STT)')
+  let total = 0n
+  for (const device of report.devices) {
+    total += device.spend
+    console.log('   ' + [
+      `${device.deviceId.slice(0, 10)}...`.padEnd(13),
+      String(device.readings).padStart(8),
+      String(device.grants).padStart(7),
+      String(device.renewals).padStart(7),
+      String(device.revokes).padStart(8),
+      String(device.flaps).padStart(6),
+      `${(device.coverage * 100).toFixed(1)}%`.padStart(9),
+      device.trust.toFixed(2).padStart(6),
+      formatEther(device.spend).padStart(13)
+    ].join(' '))
+  }
+  console.log(`\n   Total spend: ${formatEther(total)} STT`)
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const json = args.includes('--json')
+  const [path] = args.filter(arg => arg !== '--json')
+  if (!path) {
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+
+  const report = await new Backtest(loadConfig(), MOCK_MARKET_DEFAULTS).run(SignalRecorder.load(path))
+
+  if (json) {
+    console.log(JSON.stringify(report, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2))
+  } else {
+    print(report)
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('❌', error.message)
+    process.exit(1)
+  })
@@ -0,0 +1,85 @@
+import type { PublicClient } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+export interface OpenRequest {
+  requester: `0x${string}`
+  bid: bigint
+  frequency: number
+  duration: number
+  expiresAt: number       // ms, block clock
+  latitude: number
+  longitude: number
+}
+
+export interface RequestBookConfig {
+  contract: `0x${string}`
+  refreshMs: number       // how long a chain read is trusted
+}
+
+interface CachedRequest {
+  request?: OpenRequest
+  fetchedAt: number
+}
+
+/**
+ * Cached view of the devices' open access requests in SpectrumMarket.
+ *
+ * A request is read with getRequest the first time a device is seen and
+ * re-read once the cached copy is older than `refreshMs`, so a device
+ * streaming many readings costs one call per refresh window.
+ */
+export class RequestBook {
+  private cache = new Map<string, CachedRequest>()
+
+  constructor(
+    private publicClient: PublicClient,
+    private config: RequestBookConfig
+  ) {}
+
+  /**
+   * The device's live request, reading through to the chain when stale
+   */
+  async get(deviceId: `0x${string}`): Promise<OpenRequest | undefined> {
+    const key = deviceId.toLowerCase()
+    const cached = this.cache.get(key)
+    if (!cached || Date.now() - cached.fetchedAt >= this.config.refreshMs) {
+      this.cache.set(key, { request: await this.fetch(deviceId), fetchedAt: Date.now() })
+    }
+    return this.peek(deviceId)
+  }
+
+  /**
+   * The cached request if it is still open; never touches the chain
+   */
+  peek(deviceId: `0x${string}`): OpenRequest | undefined {
+    const request = this.cache.get(deviceId.toLowerCase())?.request
+    return request && request.expiresAt > Date.now() ? request : undefined
+  }
+
+  /**
+   * Forget the device's request, e.g. once an accept for it is queued
+   */
+  invalidate(deviceId: `0x${string}`) {
+    this.cache.set(deviceId.toLowerCase(), { fetchedAt: Date.now() })
+  }
+
+  private async fetch(deviceId: `0x${string}`): Promise<OpenRequest | undefined> {
+    const request = await this.publicClient.readContract({
+      address: this.config.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'getRequest',
+      args: [deviceId]
+    })
+    if (request.requester === '0x0000000000000000000000000000000000000000') return undefined
+
+    return {
+      requester: request.requester,
+      bid: request.bid,
+      frequency: request.frequency,
+      duration: request.duration,
+      expiresAt: request.expiresAt * 1000,
+      latitude: request.latitude,
+      longitude: request.longitude
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import type { PublicClient } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+export interface ProviderRevenue {
+  provider: `0x${string}`
+  grants: number
+  granted: bigint         // payments attached to AccessGranted, before refunds
+  claimed: bigint
+}
+
+export interface Withdrawal {
+  owner: `0x${string}`
+  amount: bigint
+  blockNumber: bigint
+  timestamp: number       // ms
+}
+
+export interface RevenueReport {
+  fromBlock: bigint
+  toBlock: bigint
+  providers: ProviderRevenue[]
+  withdrawals: Withdrawal[]
+  totalGranted: bigint
+  totalWithdrawn: bigint
+}
+
+/**
+ * Summarise market revenue in [fromBlock, toBlock] from AccessGranted,
+ * EarningsClaimed and FundsWithdrawn logs, `blockRange` blocks per query
+ */
+export async function buildRevenueReport(
+  publicClient: PublicClient,
+  contract: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint,
+  blockRange: bigint
+): Promise<RevenueReport> {
+  const byProvider = new Map<string, ProviderRevenue>()
+  const withdrawals: Withdrawal[] = []
+
+  const revenueOf = (provider: `0x${string}`) => {
+    const key = provider.toLowerCase()
+    let revenue = byProvider.get(key)
+    if (!revenue) {
+      revenue = { provider, grants: 0, granted: 0n, claimed: 0n }
+      byProvider.set(key, revenue)
+    }
+    return revenue
+  }
+
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = start + blockRange - 1n < toBlock ? start + blockRange - 1n : toBlock
+    const range = { address: contract, abi: SpectrumMarketABI, fromBlock: start, toBlock: end } as const
+
+    const [granted, claimed, withdrawn] = await Promise.all([
+      publicClient.getContractEvents({ ...range, eventName: 'AccessGranted' }),
+      publicClient.getContractEvents({ ...range, eventName: 'EarningsClaimed' }),
+      publicClient.getContractEvents({ ...range, eventName: 'FundsWithdrawn' })
+    ])
+
+    for (const log of granted) {
+      const revenue = revenueOf(log.args.provider!)
+      revenue.grants++
+      revenue.granted += log.args.amount!
+    }
+    for (const log of claimed) {
+      revenueOf(log.args.provider!).claimed += log.args.amount!
+    }
+    for (const log of withdrawn) {
+      withdrawals.push({
+        owner: log.args.owner!,
+        amount: log.args.amount!,
+        blockNumber: log.blockNumber,
+        timestamp: Number(log.args.timestamp!) * 1000
+      })
+    }
+  }
+
+  const providers = [...byProvider.values()].sort((a, b) => (b.granted > a.granted ? 1 : b.granted < a.granted ? -1 : 0))
+  return {
+    fromBlock,
+    toBlock,
+    providers,
+    withdrawals,
+    totalGranted: providers.reduce((sum, p) => sum + p.granted, 0n),
+    totalWithdrawn: withdrawals.reduce((sum, w) => sum + w.amount, 0n)
+  }
+}
@@ -0,0 +1,172 @@
+import { appendFileSync, existsSync, readFileSync, renameSync, writeFileSync } from 'fs'
+
+export interface DeviceState {
+  hasGrant: boolean
+  grantExpires: number
+  grantDuration: number
+  frequency: number
+  lastSNR: number
+  deviceFunded?: boolean  // paid from the device's escrow; renewed only by a new request
+}
+
+export interface PendingTx {
+  id: string
+  op: 'grant' | 'renew' | 'accept' | 'revoke'
+  deviceId: `0x${string}`
+  createdAt: number
+  frequency?: number
+  duration?: number
+  payment?: string
+}
+
+type LogRecord =
+  | { t: 'cursor'; key: string; index: string }
+  | { t: 'checkpoint'; key: string; value: string }
+  | { t: 'device'; id: string; state: DeviceState }
+  | { t: 'tx'; tx: PendingTx }
+  | { t: 'txDone'; id: string }
+
+// Rewrite the log once it holds this many superseded records
+const COMPACT_THRESHOLD = 10000
+
+/**
+ * Durable provider state backed by an append-only NDJSON log.
+ *
+ * Every mutation appends one record; on open the log is folded into memory
+ * and rewritten as a compact snapshot. A torn final line (crash mid-write)
+ * is ignored.
+ */
+export class StateStore {
+  private cursors = new Map<string, bigint>()
+  private checkpoints = new Map<string, bigint>()
+  private devices = new Map<string, DeviceState>()
+  private pending = new Map<string, PendingTx>()
+  private records = 0
+  private txSeq = 0
+
+  private constructor(private path: string) {}
+
+  static open(path: string): StateStore {
+    const store = new StateStore(path)
+    store.load()
+    store.compact()
+    return store
+  }
+
+  getCursor(schemaId: string, publisher: string): bigint | undefined {
+    return this.cursors.get(cursorKey(schemaId, publisher))
+  }
+
+  setCursor(schemaId: string, publisher: string, index: bigint) {
+    const key = cursorKey(schemaId, publisher)
+    this.cursors.set(key, index)
+    this.append({ t: 'cursor', key, index: index.toString() })
+  }
+
+  /**
+   * Named progress markers outside the stream cursors (e.g. last scanned block)
+   */
+  getCheckpoint(key: string): bigint | undefined {
+    return this.checkpoints.get(key)
+  }
+
+  setCheckpoint(key: string, value: bigint) {
+    this.checkpoints.set(key, value)
+    this.append({ t: 'checkpoint', key, value: value.toString() })
+  }
+
+  getDevices(): Map<string, DeviceState> {
+    return new Map(this.devices)
+  }
+
+  putDevice(deviceId: string, state: DeviceState) {
+    this.devices.set(deviceId, state)
+    this.append({ t: 'device', id: deviceId, state })
+  }
+
+  getPendingTxs(): PendingTx[] {
+    return [...this.pending.values()]
+  }
+
+  /**
+   * Record a transaction before it is sent; returns its id
+   */
+  addPendingTx(tx: Omit<PendingTx, 'id' | 'createdAt'>): string {
+    const id = `${Date.now().toString(36)}-${(this.txSeq++).toString(36)}`
+    const record: PendingTx = { ...tx, id, createdAt: Date.now() }
+    this.pending.set(id, record)
+    this.append({ t: 'tx', tx: record })
+    return id
+  }
+
+  completeTx(id: string) {
+    if (!this.pending.delete(id)) return
+    this.append({ t: 'txDone', id })
+  }
+
+  private load() {
+    if (!existsSync(this.path)) return
+
+    const lines = readFileSync(this.path, 'utf8').split('\n')
+    for (const line of lines) {
+      if (!line.trim()) continue
+
+      let record: LogRecord
+      try {
+        record = JSON.parse(line)
+      } catch {
+        console.warn(`⚠️ Skipping corrupt state record in ${this.path}`)
+        continue
+      }
+      this.apply(record)
+    }
+  }
+
+  private apply(record: LogRecord) {
+    switch (record.t) {
+      case 'cursor':
+        this.cursors.set(record.key, BigInt(record.index))
+        break
+      case 'checkpoint':
+        this.checkpoints.set(record.key, BigInt(record.value))
+        break
+      case 'device':
+        this.devices.set(record.id, record.state)
+        break
+      case 'tx':
+        this.pending.set(record.tx.id, record.tx)
+        break
+      case 'txDone':
+        this.pending.delete(record.id)
+        break
+    }
+  }
+
+  private append(record: LogRecord) {
+    appendFileSync(this.path, JSON.stringify(record) + '\n')
+    if (++this.records > COMPACT_THRESHOLD + this.devices.size + this.cursors.size + this.checkpoints.size) {
+      this.compact()
+    }
+  }
+
+  /**
+   * Replace the log with one record per live entry (atomic rename)
+   */
+  private compact() {
+    const snapshot: LogRecord[] = [
+      ...[...this.cursors].map(([key, index]) => ({ t: 'cursor' as const, key, index: index.toString() })),
+      ...[...this.checkpoints].map(([key, value]) => ({ t: 'checkpoint' as const, key, value: value.toString() })),
+      ...[...this.devices].map(([id, state]) => ({ t: 'device' as const, id, state })),
+      ...[...this.pending.values()].map(tx => ({ t: 'tx' as const, tx }))
+    ]
+
+    const tmp = `${this.path}.tmp`
+    writeFileSync(tmp, snapshot.map(r => JSON.stringify(r) + '\n').join(''))
+    renameSync(tmp, this.path)
+    this.records = snapshot.length
+  }
+}
+
+function cursorKey(schemaId: string, publisher: string): string {
+  return `${schemaId.toLowerCase()}:${publisher.toLowerCase()}`
+}
@@ -0,0 +1,126 @@
+import { formatEther } from 'viem'
+import { publicClient, walletClient } from './clients.js'
+import { loadConfig } from './config.js'
+import { buildRevenueReport } from './revenue.js'
+import { readRegistration } from './registration.js'
+import { TransactionManager, describeOutcome, type MarketWrite } from './tx-manager.js'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import * as dotenv from 'dotenv'
+
+dotenv.config()
+
+const config = loadConfig()
+const contract = config.contractAddress
+const market = { address: contract, abi: SpectrumMarketABI } as const
+
+const USAGE = `Usage: npm run treasury -- <command>
+
+  balances                      Market totals and this wallet's earnings and stake
+  claim                         Claim this wallet's settled provider earnings
+  withdraw                      Withdraw settled protocol revenue (owner only)
+  report [fromBlock] [toBlock]  Revenue per provider and owner withdrawals`
+
+async function balances() {
+  const address = walletClient.account.address
+  const [balance, protocolFees, totalUnclaimed, totalEscrowed, totalStaked, feeBps, earnings, owner] = await Promise.all([
+    publicClient.getBalance({ address: contract }),
+    publicClient.readContract({ ...market, functionName: 'protocolFees' }),
+    publicClient.readContract({ ...market, functionName: 'totalUnclaimed' }),
+    publicClient.readContract({ ...market, functionName: 'totalEscrowed' }),
+    publicClient.readContract({ ...market, functionName: 'totalStaked' }),
+    publicClient.readContract({ ...market, functionName: 'protocolFeeBps' }),
+    publicClient.readContract({ ...market, functionName: 'earnings', args: [address] }),
+    publicClient.readContract({ ...market, functionName: 'owner' })
+  ])
+  const registration = await readRegistration(publicClient, contract, address)
+  const committed = protocolFees + totalUnclaimed + totalEscrowed + totalStaked
+
+  console.log(`\n🏦 SpectrumMarket ${contract}`)
+  console.log(`   Balance:             ${formatEther(balance)} STT`)
+  console.log(`   Protocol fees:       ${formatEther(protocolFees)} STT (fee ${feeBps / 100}%, owner ${owner})`)
+  console.log(`   Unclaimed earnings:  ${formatEther(totalUnclaimed)} STT`)
+  console.log(`   Device escrow:       ${formatEther(totalEscrowed)} STT`)
+  console.log(`   Provider stakes:     ${formatEther(totalStaked)} STT`)
+  console.log(`   Unsettled grants:    ${formatEther(balance - committed)} STT`)
+  console.log(`\n👤 ${address}`)
+  console.log(`   Earnings:            ${formatEther(earnings)} STT`)
+  console.log(`   Stake:               ${formatEther(registration.stake)} STT (${registration.status})`)
+}
+
+async function send(functionName: MarketWrite, label: string) {
+  const txs = new TransactionManager(publicClient, walletClient, {
+    contract,
+    maxInFlight: 1,
+    confirmations: config.txConfirmations,
+    receiptTimeoutMs: config.txReceiptTimeoutMs,
+    maxAttempts: config.txMaxAttempts,
+    gasBumpPercent: config.txGasBumpPercent,
+    gasBufferPercent: config.txGasBufferPercent,
+    pollIntervalMs: config.txPollIntervalMs
+  })
+
+  const outcome = await txs.submit({ functionName, args: [] } as Parameters<typeof txs.submit>[0])
+  if (outcome.status !== 'confirmed') throw new Error(`${label} ${describeOutcome(outcome)}`)
+  console.log(`✅ ${label} TX: ${outcome.hash} (block ${outcome.receipt.blockNumber})`)
+  if (config.explorerUrl) console.log(`   View: ${config.explorerUrl}/tx/${outcome.hash}`)
+}
+
+async function claim() {
+  const earnings = await publicClient.readContract({ ...market, functionName: 'earnings', args: [walletClient.account.address] })
+  console.log(`💸 Claiming ${formatEther(earnings)} STT of provider earnings`)
+  await send('claimEarnings', 'Claim')
+}
+
+async function withdraw() {
+  const protocolFees = await publicClient.readContract({ ...market, functionName: 'protocolFees' })
+  console.log(`💸 Withdrawing ${formatEther(protocolFees)} STT of protocol revenue`)
+  await send('withdraw', 'Withdraw')
+}
+
+async function report(from?: string, to?: string) {
+  const latest = await publicClient.getBlockNumber()
+  const lookback = config.reconcileLookbackBlocks
+  const fromBlock = from !== undefined
+    ? BigInt(from)
+    : config.reconcileFromBlock ?? (latest > lookback ? latest - lookback : 0n)
+  const toBlock = to !== undefined ? BigInt(to) : latest
+
+  const revenue = await buildRevenueReport(publicClient, contract, fromBlock, toBlock, config.logBlockRange)
+
+  console.log(`\n📊 Revenue, blocks ${revenue.fromBlock}-${revenue.toBlock}`)
+  for (const provider of revenue.providers) {
+    console.log(`   ${provider.provider} | ${provider.grants} grants | ${formatEther(provider.granted)} STT granted | ${formatEther(provider.claimed)} STT claimed`)
+  }
+  console.log(`   Total granted: ${formatEther(revenue.totalGranted)} STT`)
+
+  console.log(`\n💰 Owner withdrawals`)
+  for (const withdrawal of revenue.withdrawals) {
+    console.log(`   ${new Date(withdrawal.timestamp).toISOString()} | block ${withdrawal.blockNumber} | ${formatEther(withdrawal.amount)} STT to ${withdrawal.owner}`)
+  }
+  console.log(`   Total withdrawn: ${formatEther(revenue.totalWithdrawn)} STT`)
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+
+  switch (command) {
+    case 'balances':
+      return balances()
+    case 'claim':
+      return claim()
+    case 'withdraw':
+      return withdraw()
+    case 'report':
+      return report(args[0], args[1])
+    default:
+      console.log(USAGE)
+      if (command) process.exitCode = 1
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('❌', error.message)
+    process.exit(1)
+  })
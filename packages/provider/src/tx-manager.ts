@@ -0,0 +1,424 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  Eip1559FeesNotSupportedError,
+  NonceTooLowError,
+  decodeErrorResult,
+  encodeFunctionData,
+  type Account,
+  type Chain,
+  type ContractErrorName,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient
+} from 'viem'
+import PQueue from 'p-queue'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+type MarketAbi = typeof SpectrumMarketABI
+
+export type MarketWrite = ContractFunctionName<MarketAbi, 'nonpayable' | 'payable'>
+export type MarketError = ContractErrorName<MarketAbi>
+
+export interface TxRequest<F extends MarketWrite = MarketWrite> {
+  functionName: F
+  args: ContractFunctionArgs<MarketAbi, 'nonpayable' | 'payable', F>
+  value?: bigint
+  /** Requests sharing a key run one after another (e.g. per device) */
+  key?: string
+}
+
+export interface RevertReason {
+  errorName: MarketError | 'unknown'
+  args: readonly unknown[]
+  message: string
+}
+
+export type TxOutcome =
+  | { status: 'confirmed'; hash: Hash; receipt: TransactionReceipt; attempts: number }
+  // hash is unset when simulation caught the revert before anything was sent
+  | { status: 'reverted'; hash?: Hash; reason: RevertReason }
+  // never mined (or never sent); the chain state is unchanged as far as we know
+  | { status: 'failed'; hashes: Hash[]; error: string }
+
+export interface TxManagerConfig {
+  contract: `0x${string}`
+  maxInFlight: number         // txs pipelined ahead of their receipts
+  confirmations: number
+  receiptTimeoutMs: number    // per attempt, before the tx is replaced
+  maxAttempts: number
+  gasBumpPercent: number      // fee increase per replacement (nodes require >= 10)
+  gasBufferPercent: number    // headroom on top of the gas estimate
+  pollIntervalMs: number
+}
+
+type Fees =
+  | { gasPrice: bigint }
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+
+const REVERT_HINTS: Partial<Record<MarketError, string>> = {
+  InsufficientPayment: 'Payment below the channel floor (see minPrice)',
+  InvalidDuration: 'Duration out of range (must be 1-3600 seconds)',
+  InvalidFrequency: 'Frequency is 0',
+  NotProvider: 'Grant belongs to another provider',
+  GrantExpired: 'Grant already expired',
+  PaymentMismatch: 'Batch value differs from the sum of item payments',
+  BatchTooLarge: 'Too many items in one batch',
+  NoRequest: 'Device has no open access request',
+  RequestExpired: 'Access request expired',
+  PriceAboveBid: 'Price exceeds the device bid',
+  GrantActive: 'Device holds another provider\'s grant',
+  DeviceFundedGrant: 'Device-funded grants renew through a new request',
+  InsufficientEscrow: 'Requester escrow too low for the bid',
+  ChannelAtCapacity: 'Frequency is at its grant limit in this cell',
+  InvalidLocation: 'Latitude/longitude out of range',
+  NotRegistered: 'Wallet is not a registered provider',
+  ProviderNotActive: 'Provider is suspended or exiting',
+  StakeTooLow: 'Provider stake below the market minimum',
+  GrantsPaused: 'Market is paused by its owner',
+  NothingToClaim: 'No settled earnings to claim',
+  NotPriceOracle: 'Only the market owner or price oracle may set floors',
+  InvalidPrice: 'The default floor must be above zero',
+  OnlyOwner: 'Only the market owner may do this'
+}
+
+/**
+ * Submits SpectrumMarket writes from one wallet.
+ *
+ * Nonces are tracked locally so up to `maxInFlight` txs can wait for receipts
+ * at once. Every call is simulated first, so most reverts are decoded without
+ * spending gas; txs not mined in time are replaced with bumped fees.
+ */
+export class TransactionManager {
+  private queue: PQueue
+  private sendLock = new PQueue({ concurrency: 1 })
+  private nonce?: number
+  private tails = new Map<string, Promise<TxOutcome>>()
+  private chained = 0         // keyed requests waiting on an earlier one, not yet queued
+
+  constructor(
+    private publicClient: PublicClient,
+    private walletClient: WalletClient<Transport, Chain, Account>,
+    private config: TxManagerConfig
+  ) {
+    this.queue = new PQueue({ concurrency: config.maxInFlight })
+  }
+
+  /**
+   * Txs queued or awaiting receipts
+   */
+  get pending(): number {
+    return this.queue.size + this.queue.pending + this.chained
+  }
+
+  /**
+   * Resolves once fewer than `limit` requests are waiting to start, counting
+   * keyed ones still held behind their predecessor
+   */
+  async waitForCapacity(limit: number): Promise<void> {
+    while (this.queue.size + this.chained >= limit) {
+      await new Promise(resolve => this.queue.once('active', resolve))
+    }
+  }
+
+  async idle(): Promise<void> {
+    await Promise.all(this.tails.values())
+    await this.queue.onIdle()
+  }
+
+  /**
+   * Resolves with the final outcome; never rejects
+   */
+  submit<F extends MarketWrite>(request: TxRequest<F>): Promise<TxOutcome> {
+    const { key } = request
+    const previous = key ? this.tails.get(key) : undefined
+
+    const outcome = (async () => {
+      if (previous) {
+        this.chained++
+        try {
+          await previous
+        } finally {
+          this.chained--
+        }
+      }
+      return (await this.queue.add(() => this.execute(request)))!
+    })()
+
+    if (key) {
+      this.tails.set(key, outcome)
+      outcome.finally(() => {
+        if (this.tails.get(key) === outcome) this.tails.delete(key)
+      })
+    }
+    return outcome
+  }
+
+  private async execute(request: TxRequest): Promise<TxOutcome> {
+    const hashes: Hash[] = []
+    let attempts = 0
+    try {
+      const gas = await this.estimateGas(request)
+      if ('reason' in gas) return { status: 'reverted', reason: gas.reason }
+
+      const gasLimit = gas.estimate * BigInt(100 + this.config.gasBufferPercent) / 100n
+      const data = encodeFunctionData({
+        abi: SpectrumMarketABI,
+        functionName: request.functionName,
+        args: request.args
+      } as Parameters<typeof encodeFunctionData<MarketAbi>>[0])
+      let fees = await this.initialFees()
+
+      const nonce = await this.sendLock.add(() => this.sendNext(data, request.value, gasLimit, fees, hashes))
+
+      for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
+        attempts = attempt
+        if (attempt > 1) {
+          fees = bumpFees(fees, this.config.gasBumpPercent)
+          console.warn(`  ⏫ Nonce ${nonce} not mined after ${this.config.receiptTimeoutMs}ms, replacing (attempt ${attempt}/${this.config.maxAttempts})`)
+          try {
+            hashes.push(await this.send(data, request.value, nonce!, gasLimit, fees))
+          } catch (error: any) {
+            // Usually an earlier attempt was just mined; keep waiting on those
+            console.warn(`  ⚠️ Replacement rejected: ${error.shortMessage ?? error.message}`)
+          }
+        }
+
+        const receipt = await this.waitForAny(hashes)
+        if (!receipt) continue
+
+        if (receipt.status === 'reverted') {
+          return {
+            status: 'reverted',
+            hash: receipt.transactionHash,
+            reason: await this.replayRevert(request, receipt.blockNumber)
+          }
+        }
+
+        await this.waitForConfirmations(receipt.blockNumber)
+        return { status: 'confirmed', hash: receipt.transactionHash, receipt, attempts: attempt }
+      }
+
+      // The nonce may be dropped or still stuck; count again from the node
+      this.nonce = undefined
+      return {
+        status: 'failed',
+        hashes,
+        error: `Not mined after ${this.config.maxAttempts} attempts (nonce ${nonce})`
+      }
+    } catch (error: any) {
+      // Something broke after sending; if one of the txs landed it stands
+      const receipt = hashes.length > 0 ? await this.waitForAny(hashes) : undefined
+      if (receipt?.status === 'success') {
+        console.warn(`  ⚠️ Could not confirm ${receipt.transactionHash.slice(0, 10)}... (${error.shortMessage ?? error.message}), taking it as mined`)
+        return { status: 'confirmed', hash: receipt.transactionHash, receipt, attempts }
+      }
+      if (receipt) {
+        return {
+          status: 'reverted',
+          hash: receipt.transactionHash,
+          reason: await this.replayRevert(request, receipt.blockNumber)
+        }
+      }
+      if (hashes.length > 0) this.nonce = undefined
+      return { status: 'failed', hashes, error: error.shortMessage ?? error.message }
+    }
+  }
+
+  /**
+   * Allocate the next nonce and broadcast; the nonce is only consumed once
+   * the node accepted the tx, so a failed send leaves no gap.
+   */
+  private async sendNext(
+    data: `0x${string}`,
+    value: bigint | undefined,
+    gasLimit: bigint,
+    fees: Fees,
+    hashes: Hash[]
+  ): Promise<number> {
+    for (let resynced = false; ; resynced = true) {
+      const nonce = this.nonce ?? await this.publicClient.getTransactionCount({
+        address: this.walletClient.account.address,
+        blockTag: 'pending'
+      })
+
+      try {
+        hashes.push(await this.send(data, value, nonce, gasLimit, fees))
+        this.nonce = nonce + 1
+        return nonce
+      } catch (error) {
+        // Something else spent our nonce (another process with the same key)
+        if (resynced || !isNonceTooLow(error)) throw error
+        this.nonce = undefined
+      }
+    }
+  }
+
+  private send(
+    data: `0x${string}`,
+    value: bigint | undefined,
+    nonce: number,
+    gas: bigint,
+    fees: Fees
+  ): Promise<Hash> {
+    const base = { to: this.config.contract, data, value, nonce, gas }
+    return 'gasPrice' in fees
+      ? this.walletClient.sendTransaction({ ...base, gasPrice: fees.gasPrice })
+      : this.walletClient.sendTransaction({ ...base, ...fees })
+  }
+
+  private async estimateGas(request: TxRequest): Promise<{ estimate: bigint } | { reason: RevertReason }> {
+    try {
+      const estimate = await this.publicClient.estimateContractGas({
+        address: this.config.contract,
+        abi: SpectrumMarketABI,
+        functionName: request.functionName,
+        args: request.args,
+        value: request.value,
+        account: this.walletClient.account
+      } as Parameters<typeof this.publicClient.estimateContractGas>[0])
+      return { estimate }
+    } catch (error) {
+      const reason = decodeRevert(error)
+      if (reason) return { reason }
+      throw error
+    }
+  }
+
+  /**
+   * Re-run a mined-but-reverted call against the state it saw to recover the error
+   */
+  private async replayRevert(request: TxRequest, blockNumber: bigint): Promise<RevertReason> {
+    try {
+      await this.publicClient.simulateContract({
+        address: this.config.contract,
+        abi: SpectrumMarketABI,
+        functionName: request.functionName,
+        args: request.args,
+        value: request.value,
+        account: this.walletClient.account,
+        blockNumber: blockNumber - 1n
+      } as Parameters<typeof this.publicClient.simulateContract>[0])
+    } catch (error) {
+      const reason = decodeRevert(error)
+      if (reason) return reason
+    }
+    return { errorName: 'unknown', args: [], message: 'Reverted on chain (reason not reproducible)' }
+  }
+
+  private async initialFees(): Promise<Fees> {
+    try {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await this.publicClient.estimateFeesPerGas()
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    } catch (error) {
+      if (!(error instanceof Eip1559FeesNotSupportedError)) throw error
+      return { gasPrice: await this.publicClient.getGasPrice() }
+    }
+  }
+
+  private async waitForAny(hashes: Hash[]): Promise<TransactionReceipt | undefined> {
+    const deadline = Date.now() + this.config.receiptTimeoutMs
+
+    while (Date.now() < deadline) {
+      const receipt = await this.findReceipt(hashes)
+      if (receipt) return receipt
+      await sleep(this.config.pollIntervalMs)
+    }
+    return undefined
+  }
+
+  /** Receipt of whichever hash was mined, if any; lookup errors count as not mined yet */
+  private async findReceipt(hashes: Hash[]): Promise<TransactionReceipt | undefined> {
+    for (const hash of hashes) {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch(() => undefined)
+      if (receipt) return receipt
+    }
+    return undefined
+  }
+
+  /**
+   * Wait until `blockNumber` is `confirmations` deep; RPC errors are retried
+   * for up to receiptTimeoutMs before giving up
+   */
+  private async waitForConfirmations(blockNumber: bigint) {
+    let deadline = Date.now() + this.config.receiptTimeoutMs
+    for (;;) {
+      try {
+        const head = await this.publicClient.getBlockNumber()
+        if (head - blockNumber + 1n >= BigInt(this.config.confirmations)) return
+        deadline = Date.now() + this.config.receiptTimeoutMs
+      } catch (error) {
+        if (Date.now() > deadline) throw error
+      }
+      await sleep(this.config.pollIntervalMs)
+    }
+  }
+}
+
+/**
+ * One-line explanation of a non-confirmed outcome for logs
+ */
+export function describeOutcome(outcome: TxOutcome): string {
+  switch (outcome.status) {
+    case 'confirmed':
+      return `confirmed in block ${outcome.receipt.blockNumber}`
+    case 'reverted': {
+      const { errorName, message } = outcome.reason
+      return `reverted with ${errorName === 'unknown' ? `unknown error: ${message}` : describeError(errorName)}`
+    }
+    case 'failed':
+      return `failed: ${outcome.error}`
+  }
+}
+
+/**
+ * Error name with its operator-facing explanation, if there is one
+ */
+export function describeError(errorName: MarketError | 'unknown'): string {
+  const hint = errorName !== 'unknown' ? REVERT_HINTS[errorName] : undefined
+  return hint ? `${errorName} (${hint})` : errorName
+}
+
+/**
+ * Name of the SpectrumMarket error with this 4-byte selector
+ */
+export function decodeErrorSelector(selector: Hex): MarketError | 'unknown' {
+  try {
+    return decodeErrorResult({ abi: SpectrumMarketABI, data: selector }).errorName as MarketError
+  } catch {
+    return 'unknown'
+  }
+}
+
+function decodeRevert(error: unknown): RevertReason | undefined {
+  if (!(error instanceof BaseError)) return undefined
+
+  const revert = error.walk(e => e instanceof ContractFunctionRevertedError)
+  if (!(revert instanceof ContractFunctionRevertedError)) return undefined
+
+  return {
+    errorName: (revert.data?.errorName as MarketError | undefined) ?? 'unknown',
+    args: revert.data?.args ?? [],
+    message: revert.reason ?? revert.shortMessage
+  }
+}
+
+function isNonceTooLow(error: unknown): boolean {
+  return error instanceof BaseError && error.walk(e => e instanceof NonceTooLowError) !== null
+}
+
+function bumpFees(fees: Fees, percent: number): Fees {
+  const bump = (value: bigint) => value * BigInt(100 + percent) / 100n + 1n
+  return 'gasPrice' in fees
+    ? { gasPrice: bump(fees.gasPrice) }
+    : { maxFeePerGas: bump(fees.maxFeePerGas), maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas) }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
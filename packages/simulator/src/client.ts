@@ -32,4 +32,15 @@ export const walletClient = createWalletClient({
 
 export const deviceWallet = account.address
 
+/**
+ * Wallet client for a device that publishes with its own key
+ */
+export function createDeviceWalletClient(privateKey: `0x${string}`) {
+  return createWalletClient({
+    account: privateKeyToAccount(privateKey),
+    chain: somniaTestnet,
+    transport: http(process.env.RPC_URL || 'https://dream-rpc.somnia.network')
+  })
+}
+
 console.log(`✅ Device wallet: ${account.address}`)
@@ -1,16 +1,138 @@
-import { SDK, SchemaEncoder } from '@somnia-chain/streams'
-import { toHex } from 'viem'
-import type { PublicClient, WalletClient } from 'viem'
+import { SDK } from '@somnia-chain/streams'
+import { formatEther, toHex } from 'viem'
+import type { LocalAccount, PublicClient, WalletClient } from 'viem'
+import { encodeSignalData } from '../../../shared/codec.js'
+import type { RfMetrics, SchemaVersion, SignalData } from '../../../shared/schema.js'
+import { signSignalData, type SigningDomain } from '../../../shared/signing.js'
+import type { StreamsClient } from '../../../shared/streams.js'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+import { GrantWatch, type GrantChange, type GrantView } from './grant-watch.js'
+import {
+  distanceBetween,
+  distanceForLoss,
+  interferencePower,
+  LogDistanceModel,
+  offsetBy,
+  sumPower,
+  type Interferer,
+  type Position,
+  type PropagationModel,
+  type RadioEnvironment
+} from './propagation.js'
 
-const signalQualitySchema = `uint64 timestamp,bytes32 deviceId,uint32 frequency,int16 snr,int32 latitude,int32 longitude,uint8 interferenceLevel,uint256 bidPrice`
+// Shadow fading between successive readings barely changes: the device
+// doesn't move, only the clutter around the link does
+const SHADOW_CORRELATION = 0.8
+
+// Serving access point EIRP when a profile doesn't place one, in dBm
+const ACCESS_POINT_POWER = 20
+
+// A leaky microwave oven a room away, spraying 2400-2500 MHz
+export const MICROWAVE = { frequency: 2450, bandwidth: 100000, power: 0 } // MHz, kHz, dBm
+export const MICROWAVE_DISTANCE = 12 // metres
+
+/**
+ * How a device buys its own access from SpectrumMarket
+ */
+export interface MarketAccess {
+  contract: `0x${string}`
+  escrow: bigint          // free escrow is topped back up to this before a request
+  requestDuration: number // seconds of access asked for
+  requestTtl: number      // seconds a request stays open
+  renewBeforeMs: number   // request again once the grant has this little left
+}
+
+/**
+ * How a device obeys its grant: it only transmits while SpectrumMarket says
+ * it may, and reacts to revokes by going quiet, bidding more and, if revokes
+ * keep coming, moving to another channel
+ */
+export interface GrantControl {
+  contract: `0x${string}`
+  channels: number[]          // MHz, preferred first
+  backoffMs: number           // silence after a revoke, doubled per consecutive revoke
+  maxBackoffMs: number
+  bidStepPercent: number      // bid raise per consecutive revoke
+  maxBidMultiplier: number
+  switchAfterRevokes: number  // consecutive revokes on one channel before moving on
+  resyncMs: number            // getGrant re-read interval
+}
+
+/**
+ * Per-device key that signs every reading (schema v3)
+ */
+export interface TelemetrySigning {
+  account: LocalAccount
+  domain: SigningDomain
+}
+
+/**
+ * Where a device's serving access point is and how loud it is
+ */
+export interface AccessPoint extends Position {
+  power: number           // dBm EIRP
+}
+
+/**
+ * Per-device overrides of the demo defaults, set by scenarios. `random`
+ * replaces Math.random for shadow fading and occupancy, so a seeded generator
+ * makes a device's readings repeatable.
+ */
+export interface DeviceProfile {
+  baselineSnr?: number    // dB; places the access point for this median SNR on the starting channel
+  accessPoint?: AccessPoint // instead of baselineSnr
+  frequency?: number      // MHz; takes precedence over the first control channel
+  latitude?: number       // microdegrees
+  longitude?: number
+  propagation?: PropagationModel // default: log-distance with LOG_DISTANCE_DEFAULTS
+  environment?: RadioEnvironment // interferers shared with other devices
+  random?: () => number
+}
+
+/**
+ * One look at the serving link
+ */
+interface LinkReading {
+  snr: number             // dB, signal over noise plus interference
+  signal: number          // dBm from the access point
+  floor: number           // dBm, noise plus interference
+  rise: number            // dB the interference lifts the floor above thermal noise
+}
+
+// transmit: granted on its channel; hold-off: waiting for a grant, telemetry
+// only; backoff: revoked, silent until the back-off ends
+export type RadioState = 'transmit' | 'hold-off' | 'backoff'
 
 export class IoTDevice {
   private deviceId: number
+  private publisher: `0x${string}`
   private baselineSNR: number = 15
-  private microwaveActive: boolean = false
-  private schemaEncoder: SchemaEncoder
-  private sdk: SDK
+  private random: () => number = Math.random
+  private propagation: PropagationModel
+  private accessPoint: AccessPoint
+  private environment?: RadioEnvironment
+  private interferers = new Set<Interferer>() // heard by this device only
+  private shadow: number
+  private streams: StreamsClient
+  private timer?: NodeJS.Timeout
   private schemaId: `0x${string}`
+  private schemaVersion: SchemaVersion
+  private publicClient: PublicClient
+  private walletClient: WalletClient
+  private market?: MarketAccess
+  private requesting: boolean = false
+  private control?: GrantControl
+  private grants?: GrantWatch
+  private frequency: number = 2400
+  private radio: RadioState = 'transmit'
+  private backoffUntil: number = 0
+  private strikes: number = 0     // consecutive revokes on this channel
+  private signing?: TelemetrySigning
+  
+  // Radio front-end (v2 telemetry)
+  private noiseFloor: number = -95    // dBm
+  private bandwidth: number = 20000   // kHz (20 MHz Wi-Fi channel)
+  private txPower: number = 20        // dBm
   
   // Shimla, India coordinates
   private latitude: number = 31083000  // 31.083° N
@@ -20,35 +142,119 @@ export class IoTDevice {
     deviceId: number,
     publicClient: PublicClient,
     walletClient: WalletClient,
-    schemaId: string
+    schemaId: string,
+    schemaVersion: SchemaVersion = 1,
+    streams?: StreamsClient,  // defaults to the Somnia SDK; the devnet injects its own
+    market?: MarketAccess,    // without it the device only streams telemetry
+    control?: GrantControl,   // without it the device transmits regardless of its grant
+    signing?: TelemetrySigning, // required for schema v3
+    profile: DeviceProfile = {}
   ) {
+    if (schemaVersion === 3 && !signing) {
+      throw new Error(`Device ${deviceId}: schema v3 needs a signing key`)
+    }
+    
     this.deviceId = deviceId
+    this.publisher = walletClient.account!.address
     this.schemaId = schemaId as `0x${string}`
-    this.schemaEncoder = new SchemaEncoder(signalQualitySchema)
+    this.schemaVersion = schemaVersion
+    this.publicClient = publicClient
+    this.walletClient = walletClient
+    this.market = market
+    this.control = control
+    this.signing = schemaVersion === 3 ? signing : undefined
+    if (control) {
+      this.frequency = control.channels[0] ?? this.frequency
+      this.radio = 'hold-off'
+    }
+    this.baselineSNR = profile.baselineSnr ?? this.baselineSNR
+    this.frequency = profile.frequency ?? this.frequency
+    this.latitude = profile.latitude ?? this.latitude
+    this.longitude = profile.longitude ?? this.longitude
+    this.random = profile.random ?? this.random
+    this.propagation = profile.propagation ?? new LogDistanceModel()
+    this.environment = profile.environment
+    this.accessPoint = profile.accessPoint ?? this.placeAccessPoint()
+    this.shadow = this.propagation.shadowing(this.random)
     
-    this.sdk = new SDK({
+    this.streams = streams ?? new SDK({
       public: publicClient,
       wallet: walletClient
-    })
+    }).streams
   }
   
   /**
-   * Calculate SNR with realistic interference patterns
+   * On-chain device identifier (bytes32)
    */
-  private calculateSNR(): number {
-    let snr = this.baselineSNR + (Math.random() * 4 - 2) // ±2dB variance
-    
-    // Microwave interference (sharp drop)
-    if (this.microwaveActive) {
-      snr -= 8
-    }
+  get hexId(): `0x${string}` {
+    return toHex(`device-${this.deviceId}`, { size: 32 })
+  }
+  
+  /**
+   * Wallet that publishes this device's telemetry
+   */
+  get publisherAddress(): `0x${string}` {
+    return this.publisher
+  }
+  
+  /**
+   * Address of the key that signs this device's readings, if it signs them
+   */
+  get signerAddress(): `0x${string}` | undefined {
+    return this.signing?.account.address
+  }
+  
+  /**
+   * Reported position in microdegrees
+   */
+  get location(): { latitude: number; longitude: number } {
+    return { latitude: this.latitude, longitude: this.longitude }
+  }
+  
+  /**
+   * Whether the device is transmitting, waiting for a grant or backing off
+   */
+  get radioState(): RadioState {
+    return this.radio
+  }
+  
+  /**
+   * Channel the device currently reports on and asks for, in MHz
+   */
+  get channel(): number {
+    return this.frequency
+  }
+  
+  /**
+   * Access point due north, as far away as puts the median SNR on the
+   * starting channel at baselineSNR
+   */
+  private placeAccessPoint(): AccessPoint {
+    const loss = ACCESS_POINT_POWER - (this.noiseFloor + this.baselineSNR)
+    const distance = distanceForLoss(this.propagation, loss, this.frequency)
+    return { ...offsetBy(this.location, distance, 0), power: ACCESS_POINT_POWER }
+  }
+  
+  /**
+   * Calculate SNR from the link geometry: access point power over path loss
+   * and shadow fading, against thermal noise plus every interferer in earshot
+   */
+  private calculateSNR(): LinkReading {
+    const innovation = Math.sqrt(1 - SHADOW_CORRELATION ** 2) * this.propagation.shadowing(this.random)
+    this.shadow = SHADOW_CORRELATION * this.shadow + innovation
     
-    // Add some random interference events
-    if (Math.random() > 0.95) {
-      snr -= 3 // Random interference spike
-    }
+    const signal = this.accessPoint.power
+      - this.propagation.pathLoss(distanceBetween(this.location, this.accessPoint), this.frequency)
+      + this.shadow
+    const interference = interferencePower(
+      this.propagation,
+      this.location,
+      { frequency: this.frequency, bandwidth: this.bandwidth },
+      [...this.interferers, ...(this.environment?.active ?? [])]
+    )
+    const floor = sumPower([this.noiseFloor, interference])
     
-    return Math.max(0, Math.floor(snr))
+    return { snr: Math.max(0, Math.floor(signal - floor)), signal, floor, rise: floor - this.noiseFloor }
   }
   
   /**
@@ -66,15 +272,43 @@ export class IoTDevice {
   }
   
   /**
-   * Get interference level (0-5)
+   * Bids rise by bidStepPercent per consecutive revoke, up to maxBidMultiplier
+   */
+  private bidMultiplier(): number {
+    if (!this.control) return 1
+    return Math.min(this.control.maxBidMultiplier, 1 + this.control.bidStepPercent / 100 * this.strikes)
+  }
+  
+  private escalateBid(bid: bigint): bigint {
+    return bid * BigInt(Math.round(this.bidMultiplier() * 100)) / 100n
+  }
+  
+  /**
+   * Get interference level (0-5) from how far interference lifts the noise floor
+   */
+  private getInterferenceLevel(link: LinkReading): number {
+    if (link.rise < 1) return 0   // No interference
+    if (link.rise < 3) return 1   // Low
+    if (link.rise < 6) return 2   // Medium
+    if (link.rise < 10) return 3  // High
+    if (link.rise < 15) return 4  // Very high
+    return 5                      // Critical
+  }
+  
+  /**
+   * RF metrics for v2 records, consistent with the reported SNR; the noise
+   * floor is what the receiver measures, interference included
    */
-  private getInterferenceLevel(snr: number): number {
-    if (snr >= 15) return 0  // No interference
-    if (snr >= 12) return 1  // Low
-    if (snr >= 10) return 2  // Medium
-    if (snr >= 7) return 3   // High
-    if (snr >= 5) return 4   // Very high
-    return 5                 // Critical
+  private getRfMetrics(link: LinkReading, interferenceLevel: number): RfMetrics {
+    const occupancy = interferenceLevel * 18 + this.random() * 10
+    
+    return {
+      rssi: Math.round(link.signal),
+      noiseFloor: Math.round(link.floor),
+      bandwidth: this.bandwidth,
+      txPower: this.txPower,
+      channelOccupancy: Math.min(100, Math.floor(occupancy))
+    }
   }
   
   /**
@@ -83,28 +317,48 @@ export class IoTDevice {
   async startStreaming() {
     console.log(`🚀 Device ${this.deviceId} started (10Hz streaming)`)
     
-    setInterval(async () => {
-      const snr = this.calculateSNR()
-      const bidPrice = this.calculateBid(snr)
-      const interferenceLevel = this.getInterferenceLevel(snr)
+    if (this.control) {
+      this.grants = new GrantWatch(
+        this.publicClient,
+        this.control.contract,
+        this.hexId,
+        this.control.resyncMs,
+        (change, view) => this.onGrantChange(change, view)
+      )
+      await this.grants.start()
+    }
+    
+    this.timer = setInterval(async () => {
+      this.updateRadio()
+      if (this.radio === 'backoff') return
       
-      // Encode data
-      const encodedData = this.schemaEncoder.encodeData([
-        { name: 'timestamp', value: Date.now().toString(), type: 'uint64' },
-        { name: 'deviceId', value: toHex(`device-${this.deviceId}`, { size: 32 }), type: 'bytes32' },
-        { name: 'frequency', value: '2400', type: 'uint32' }, // 2400 MHz = 2.4 GHz
-        { name: 'snr', value: snr.toString(), type: 'int16' },
-        { name: 'latitude', value: this.latitude.toString(), type: 'int32' },
-        { name: 'longitude', value: this.longitude.toString(), type: 'int32' },
-        { name: 'interferenceLevel', value: interferenceLevel.toString(), type: 'uint8' },
-        { name: 'bidPrice', value: bidPrice.toString(), type: 'uint256' }
-      ])
+      const link = this.calculateSNR()
+      const snr = link.snr
+      const bidPrice = this.escalateBid(this.calculateBid(snr))
+      const interferenceLevel = this.getInterferenceLevel(link)
+      
+      const reading: SignalData = {
+        timestamp: Date.now(),
+        deviceId: this.hexId,
+        frequency: this.frequency,
+        snr,
+        latitude: this.latitude,
+        longitude: this.longitude,
+        interferenceLevel,
+        bidPrice,
+        ...(this.schemaVersion >= 2 && { rf: this.getRfMetrics(link, interferenceLevel) })
+      }
       
       // Publish to SDS
       const dataId = toHex(`device-${this.deviceId}-${Date.now()}`, { size: 32 })
       
       try {
-        await this.sdk.streams.set([{
+        // Encode data, signed by the device key for v3
+        const encodedData = encodeSignalData(this.signing
+          ? await signSignalData(this.signing.account, reading, this.signing.domain)
+          : reading)
+        
+        await this.streams.set([{
           id: dataId,
           schemaId: this.schemaId,
           data: encodedData
@@ -112,25 +366,205 @@ export class IoTDevice {
         
         // Log with color based on SNR
         const emoji = snr >= 10 ? '✅' : '⚠️'
-        console.log(`${emoji} Device ${this.deviceId}: SNR=${snr}dB | Interference=${interferenceLevel} | Bid=${Number(bidPrice)/1e15}mSTT`)
+        const radio = this.radio === 'transmit' ? 'TX' : 'HOLD'
+        console.log(`${emoji} Device ${this.deviceId}: SNR=${snr}dB | Interference=${interferenceLevel} | Bid=${Number(bidPrice)/1e15}mSTT | ${this.frequency} MHz ${radio}`)
         
       } catch (error: any) {
         console.error(`❌ Device ${this.deviceId} publish failed:`, error.message)
       }
       
+      this.requestAccessIfNeeded(bidPrice)
+      
     }, 1000) // 1Hz = every 1000ms
   }
   
+  stop() {
+    clearInterval(this.timer)
+    this.grants?.stop()
+  }
+  
+  /**
+   * Leave back-off once it has run out, and drop to hold-off when the grant
+   * lapses or is for a channel the device has since left
+   */
+  private updateRadio() {
+    if (!this.grants) return
+    
+    if (this.radio === 'backoff') {
+      if (Date.now() < this.backoffUntil) return
+      this.radio = 'hold-off'
+      console.log(`⏸️ Device ${this.deviceId}: Back-off over, asking for ${this.frequency} MHz again`)
+    }
+    
+    const grant = this.grants.current
+    const granted = grant.active && grant.frequency === this.frequency
+    if (granted && this.radio === 'hold-off') {
+      this.radio = 'transmit'
+    } else if (!granted && this.radio === 'transmit') {
+      this.radio = 'hold-off'
+    }
+  }
+  
+  private onGrantChange(change: GrantChange, grant: GrantView) {
+    const control = this.control!
+    
+    switch (change) {
+      case 'granted':
+      case 'extended':
+        if (this.radio === 'hold-off' && grant.frequency === this.frequency) {
+          this.radio = 'transmit'
+          console.log(`📡 Device ${this.deviceId}: Transmitting on ${grant.frequency} MHz until ${new Date(grant.expiresAt).toISOString()}`)
+        }
+        break
+      
+      case 'expired':
+        // A grant that ran its course is a clean end, not a strike
+        this.strikes = 0
+        if (this.radio === 'transmit') {
+          this.radio = 'hold-off'
+          console.log(`⏸️ Device ${this.deviceId}: Grant expired, holding off`)
+        }
+        break
+      
+      case 'revoked': {
+        this.strikes++
+        const backoff = Math.min(control.maxBackoffMs, control.backoffMs * 2 ** (this.strikes - 1))
+        
+        if (this.strikes >= control.switchAfterRevokes && control.channels.length > 1) {
+          const next = control.channels[(control.channels.indexOf(this.frequency) + 1) % control.channels.length]
+          console.log(`🔀 Device ${this.deviceId}: Revoked ${this.strikes}x on ${this.frequency} MHz, moving to ${next} MHz`)
+          this.frequency = next
+          this.strikes = 0
+        }
+        
+        this.radio = 'backoff'
+        this.backoffUntil = Date.now() + backoff
+        console.log(`🛑 Device ${this.deviceId}: Revoked, silent for ${backoff}ms | Next bid x${this.bidMultiplier()}`)
+        break
+      }
+    }
+  }
+  
+  /**
+   * Post an access request when the device has no grant (or it is about to
+   * lapse) and no open request at least as high as `bid`. One at a time;
+   * ticks that arrive while a request is in flight are skipped.
+   */
+  private async requestAccessIfNeeded(bid: bigint) {
+    if (!this.market || this.requesting) return
+    this.requesting = true
+    
+    try {
+      const market = this.market
+      const [grant, request] = await Promise.all([
+        this.publicClient.readContract({
+          address: market.contract,
+          abi: SpectrumMarketABI,
+          functionName: 'getGrant',
+          args: [this.hexId]
+        }),
+        this.publicClient.readContract({
+          address: market.contract,
+          abi: SpectrumMarketABI,
+          functionName: 'getRequest',
+          args: [this.hexId]
+        })
+      ])
+      
+      const now = Date.now()
+      if (grant.expiresAt * 1000 - now > market.renewBeforeMs) return
+      
+      const pending = request.requester.toLowerCase() === this.publisher.toLowerCase() && request.expiresAt * 1000 > now
+      if (pending && request.frequency === this.frequency && request.bid >= bid) return
+      
+      await this.topUpEscrow(bid)
+      await this.send('requestAccess', [
+        this.hexId,
+        this.frequency,
+        market.requestDuration,
+        bid,
+        market.requestTtl,
+        this.latitude,
+        this.longitude
+      ])
+      console.log(`📝 Device ${this.deviceId}: Requested ${market.requestDuration}s of access | Bid=${Number(bid)/1e15}mSTT`)
+      
+    } catch (error: any) {
+      console.error(`❌ Device ${this.deviceId} access request failed:`, error.shortMessage ?? error.message)
+    } finally {
+      this.requesting = false
+    }
+  }
+  
+  /**
+   * Deposit enough that free escrow covers `bid` and is back at the target
+   */
+  private async topUpEscrow(bid: bigint) {
+    const target = this.market!.escrow > bid ? this.market!.escrow : bid
+    const balance = await this.publicClient.readContract({
+      address: this.market!.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'escrowBalance',
+      args: [this.publisher]
+    })
+    if (balance >= bid) return
+    
+    await this.send('depositEscrow', [], target - balance)
+    console.log(`💰 Device ${this.deviceId}: Deposited ${formatEther(target - balance)} STT escrow`)
+  }
+  
+  private async send(
+    functionName: 'requestAccess' | 'depositEscrow',
+    args: readonly unknown[],
+    value?: bigint
+  ) {
+    const { request } = await this.publicClient.simulateContract({
+      address: this.market!.contract,
+      abi: SpectrumMarketABI,
+      functionName,
+      args,
+      value,
+      account: this.walletClient.account!
+    } as Parameters<typeof this.publicClient.simulateContract>[0])
+    
+    const hash = await this.walletClient.writeContract({ ...request, chain: this.walletClient.chain } as Parameters<typeof this.walletClient.writeContract>[0])
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') throw new Error(`${functionName} reverted (${hash})`)
+  }
+  
   /**
-   * Trigger microwave interference
+   * Trigger microwave interference: an oven a room away, heard on 2.4 GHz
+   * channels and not at all on 5.8 GHz
    */
   triggerMicrowave(duration: number = 3000) {
-    console.log(`🔥 Device ${this.deviceId}: Microwave interference for ${duration}ms`)
-    this.microwaveActive = true
+    this.addInterferer({ name: 'Microwave', ...offsetBy(this.location, 0, MICROWAVE_DISTANCE), ...MICROWAVE }, duration)
+  }
+  
+  /**
+   * Co-channel interferer right by the device, loud enough to lift its noise
+   * floor (and so cut its SNR) by `severity` dB
+   */
+  triggerInterference(duration: number, severity: number, source: string = 'External') {
+    const power = this.noiseFloor + 10 * Math.log10(10 ** (severity / 10) - 1) + this.propagation.pathLoss(0, this.frequency)
+    this.addInterferer({
+      name: source,
+      ...this.location,
+      frequency: this.frequency,
+      bandwidth: this.bandwidth,
+      power
+    }, duration)
+  }
+  
+  /**
+   * Interferer only this device hears, for `duration` ms
+   */
+  addInterferer(interferer: Interferer, duration: number) {
+    console.log(`🔥 Device ${this.deviceId}: ${interferer.name} interference (${interferer.frequency} MHz, ${interferer.power.toFixed(1)}dBm) for ${duration}ms`)
+    this.interferers.add(interferer)
     
     setTimeout(() => {
-      this.microwaveActive = false
-      console.log(`✅ Device ${this.deviceId}: Microwave interference cleared`)
+      this.interferers.delete(interferer)
+      console.log(`✅ Device ${this.deviceId}: ${interferer.name} interference cleared`)
     }, duration)
   }
 }
@@ -0,0 +1,124 @@
+import type { PublicClient } from 'viem'
+import { SpectrumMarketABI } from '../../../shared/SpectrumMarketABI.js'
+
+export interface GrantView {
+  active: boolean
+  provider: `0x${string}`
+  frequency: number
+  expiresAt: number       // ms, block clock
+}
+
+export type GrantChange = 'granted' | 'extended' | 'revoked' | 'expired'
+
+const NO_GRANT: GrantView = {
+  active: false,
+  provider: '0x0000000000000000000000000000000000000000',
+  frequency: 0,
+  expiresAt: 0
+}
+
+/**
+ * A device's own view of its SpectrumMarket grant.
+ *
+ * AccessGranted, GrantExtended and AccessRevoked events keep the view
+ * current; getGrant is re-read every `resyncMs` to catch anything the event
+ * filter missed, and a grant whose time runs out is reported as expired.
+ */
+export class GrantWatch {
+  private view: GrantView = NO_GRANT
+  private changes = 0
+  private unwatch?: () => void
+  private timer?: NodeJS.Timeout
+
+  constructor(
+    private publicClient: PublicClient,
+    private contract: `0x${string}`,
+    private deviceId: `0x${string}`,
+    private resyncMs: number,
+    private onChange: (change: GrantChange, view: GrantView) => void
+  ) {}
+
+  async start() {
+    await this.resync()
+
+    this.unwatch = this.publicClient.watchContractEvent({
+      address: this.contract,
+      abi: SpectrumMarketABI,
+      onLogs: logs => {
+        for (const log of logs) {
+          switch (log.eventName) {
+            case 'AccessGranted':
+              if (log.args.deviceId !== this.deviceId) break
+              this.apply('granted', {
+                active: true,
+                provider: log.args.provider!,
+                frequency: log.args.frequency!,
+                expiresAt: Number(log.args.timestamp! + BigInt(log.args.duration!)) * 1000
+              })
+              break
+            case 'GrantExtended':
+              if (log.args.deviceId !== this.deviceId) break
+              this.apply('extended', { ...this.view, active: true, expiresAt: log.args.expiresAt! * 1000 })
+              break
+            case 'AccessRevoked':
+              // A resync may have seen the revoke first
+              if (log.args.deviceId !== this.deviceId || !this.view.active) break
+              this.apply('revoked', NO_GRANT)
+              break
+          }
+        }
+      },
+      onError: error => console.error(`❌ Grant watch for ${this.deviceId.slice(0, 10)}... failed:`, error.message)
+    })
+
+    this.timer = setInterval(() => {
+      this.resync().catch(error => console.error(`❌ Grant resync for ${this.deviceId.slice(0, 10)}... failed:`, error.message))
+    }, this.resyncMs)
+  }
+
+  stop() {
+    this.unwatch?.()
+    clearInterval(this.timer)
+  }
+
+  /**
+   * The grant as last seen, expiring it first if its time is up
+   */
+  get current(): GrantView {
+    if (this.view.active && this.view.expiresAt <= Date.now()) this.apply('expired', NO_GRANT)
+    return this.view
+  }
+
+  private async resync() {
+    const seen = this.changes
+    const grant = await this.publicClient.readContract({
+      address: this.contract,
+      abi: SpectrumMarketABI,
+      functionName: 'getGrant',
+      args: [this.deviceId]
+    })
+    // An event landed while reading; it is newer than this read
+    if (this.changes !== seen) return
+
+    const expiresAt = grant.expiresAt * 1000
+    const live = expiresAt > Date.now()
+
+    if (live && (!this.view.active || this.view.expiresAt !== expiresAt)) {
+      this.apply(this.view.active ? 'extended' : 'granted', {
+        active: true,
+        provider: grant.provider,
+        frequency: grant.frequency,
+        expiresAt
+      })
+    } else if (!live && this.view.active) {
+      // Ended ahead of its own expiry: the revoke event was missed
+      this.apply(this.view.expiresAt > Date.now() ? 'revoked' : 'expired', NO_GRANT)
+    }
+  }
+
+  private apply(change: GrantChange, view: GrantView) {
+    this.view = view
+    this.changes++
+    this.onChange(change, view)
+  }
+}
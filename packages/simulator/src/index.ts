@@ -1,36 +1,104 @@
-import { publicClient, walletClient } from './client.js'
-import { IoTDevice } from './device.js'
+import { writeFileSync } from 'fs'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { publicClient, walletClient, createDeviceWalletClient } from './client.js'
+import { IoTDevice, type GrantControl, type MarketAccess, type TelemetrySigning } from './device.js'
+import { Scenario } from './scenario.js'
+import type { SchemaVersion } from '../../../shared/schema.js'
 import * as dotenv from 'dotenv'
 
 dotenv.config()
 
 const SCHEMA_ID = process.env.SCHEMA_ID!
+const SCHEMA_VERSION = Number(process.env.SCHEMA_VERSION || 1) as SchemaVersion
 const NUM_DEVICES = Number(process.env.NUM_DEVICES || 3)
+const DEVICE_REGISTRY_FILE = process.env.DEVICE_REGISTRY_FILE
+
+// Scripted run (see scenario.example.json); without one, NUM_DEVICES devices
+// and a microwave on device 1 after 10 seconds
+const SCENARIO_FILE = process.env.SCENARIO_FILE
+const SCENARIO_SEED = process.env.SCENARIO_SEED ? Number(process.env.SCENARIO_SEED) : undefined
+
+// Devices buy their own access when the market contract is set
+const MARKET: MarketAccess | undefined = process.env.CONTRACT_ADDRESS ? {
+  contract: process.env.CONTRACT_ADDRESS as `0x${string}`,
+  escrow: BigInt(process.env.DEVICE_ESCROW || '50000000000000000'), // 0.05 STT
+  requestDuration: Number(process.env.REQUEST_DURATION || 60),
+  requestTtl: Number(process.env.REQUEST_TTL || 30),
+  renewBeforeMs: Number(process.env.REQUEST_RENEW_BEFORE_MS || 15000)
+} : undefined
+
+// ...and only transmit while their grant is live
+const CONTROL: GrantControl | undefined = process.env.CONTRACT_ADDRESS ? {
+  contract: process.env.CONTRACT_ADDRESS as `0x${string}`,
+  channels: (process.env.CHANNELS || '2400,5800').split(',').map(channel => Number(channel.trim())),
+  backoffMs: Number(process.env.BACKOFF_MS || 5000),
+  maxBackoffMs: Number(process.env.MAX_BACKOFF_MS || 60000),
+  bidStepPercent: Number(process.env.BID_STEP_PERCENT || 50),
+  maxBidMultiplier: Number(process.env.MAX_BID_MULTIPLIER || 4),
+  switchAfterRevokes: Number(process.env.SWITCH_AFTER_REVOKES || 3),
+  resyncMs: Number(process.env.GRANT_RESYNC_MS || 5000)
+} : undefined
+
+// One key per device; devices without one share PRIVATE_KEY
+const DEVICE_PRIVATE_KEYS = (process.env.DEVICE_PRIVATE_KEYS || '')
+  .split(',')
+  .map(key => key.trim())
+  .filter(Boolean) as `0x${string}`[]
+
+// Schema v3 signing keys, one per device; missing ones are generated per run
+// (the registry written below tells the provider which key to expect)
+const DEVICE_SIGNING_KEYS = (process.env.DEVICE_SIGNING_KEYS || '')
+  .split(',')
+  .map(key => key.trim())
+  .filter(Boolean) as `0x${string}`[]
+
+function signingFor(index: number): TelemetrySigning | undefined {
+  if (SCHEMA_VERSION !== 3) return undefined
+  if (!process.env.CONTRACT_ADDRESS) {
+    throw new Error('Signed telemetry (SCHEMA_VERSION=3) needs CONTRACT_ADDRESS for its signing domain')
+  }
+  return {
+    account: privateKeyToAccount(DEVICE_SIGNING_KEYS[index] ?? generatePrivateKey()),
+    domain: { chainId: publicClient.chain.id, verifyingContract: process.env.CONTRACT_ADDRESS as `0x${string}` }
+  }
+}
+
+/**
+ * Write the deviceId -> publisher map the provider ingests from
+ */
+function writeRegistry(devices: IoTDevice[], path: string) {
+  const registry = {
+    devices: Object.fromEntries(
+      devices.map(device => [device.hexId, { publisher: device.publisherAddress, signer: device.signerAddress }])
+    )
+  }
+  writeFileSync(path, JSON.stringify(registry, null, 2) + '\n')
+  console.log(`📒 Device registry written to ${path}`)
+}
 
 async function main() {
+  const scenario = SCENARIO_FILE ? Scenario.fromFile(SCENARIO_FILE, SCENARIO_SEED) : Scenario.demo(NUM_DEVICES, SCENARIO_SEED)
+  
   console.log('🚀 EtherSignal Device Simulator Starting...')
-  console.log(`Schema ID: ${SCHEMA_ID}`)
-  console.log(`Number of devices: ${NUM_DEVICES}`)
+  console.log(`Schema ID: ${SCHEMA_ID} (v${SCHEMA_VERSION})`)
+  console.log(`Number of devices: ${scenario.devices.length}`)
+  console.log(`Device keys: ${DEVICE_PRIVATE_KEYS.length} (others share PRIVATE_KEY)`)
+  console.log(MARKET ? `Market: ${MARKET.contract} (devices request ${MARKET.requestDuration}s grants)` : 'Market: none (telemetry only)')
+  if (CONTROL) console.log(`Grant control: channels ${CONTROL.channels.join('/')} MHz, back-off ${CONTROL.backoffMs}ms, switch after ${CONTROL.switchAfterRevokes} revokes`)
   
-  // Create and start devices
-  const devices: IoTDevice[] = []
+  // Create every device up front so the registry covers late joiners too
+  const devices = scenario.devices.map(({ id, profile }) => {
+    const key = DEVICE_PRIVATE_KEYS[id - 1]
+    const deviceWalletClient = key ? createDeviceWalletClient(key) : walletClient
+    return new IoTDevice(id, publicClient, deviceWalletClient, SCHEMA_ID, SCHEMA_VERSION, undefined, MARKET, CONTROL, signingFor(id - 1), profile)
+  })
   
-  for (let i = 1; i <= NUM_DEVICES; i++) {
-    const device = new IoTDevice(i, publicClient, walletClient, SCHEMA_ID)
-    devices.push(device)
-    await device.startStreaming()
-    
-    // Stagger startup by 50ms
-    await new Promise(resolve => setTimeout(resolve, 50))
+  if (DEVICE_REGISTRY_FILE) {
+    writeRegistry(devices, DEVICE_REGISTRY_FILE)
   }
   
-  console.log(`\n✅ All ${NUM_DEVICES} devices streaming at 10Hz`)
+  scenario.play(devices, () => process.exit(0))
   console.log('Press Ctrl+C to stop\n')
-  
-  // Demo: Trigger microwave interference on device 1 after 10 seconds
-  setTimeout(() => {
-    devices[0].triggerMicrowave(3000)
-  }, 10000)
 }
 
 main().catch(console.error)
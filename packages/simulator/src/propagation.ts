@@ -0,0 +1,178 @@
+// Metres per microdegree of latitude (and of longitude at the equator)
+const METRES_PER_MICRODEGREE = 0.111195
+
+// Attenuation of an interferer whose band sits next to, not on, the channel
+// (802.11 receivers reject the first adjacent channel by roughly this much).
+// Anything further than one channel width away is not heard at all.
+const ADJACENT_CHANNEL_REJECTION_DB = 30
+
+/**
+ * A point in microdegrees, as devices report it
+ */
+export interface Position {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * A slice of spectrum: centre in MHz, width in kHz
+ */
+export interface Channel {
+  frequency: number
+  bandwidth: number
+}
+
+/**
+ * Anything that radiates into the band a device listens on
+ */
+export interface Interferer extends Position, Channel {
+  name: string
+  power: number             // dBm EIRP
+}
+
+/**
+ * How radio power falls off with distance. Implementations give the median
+ * loss; shadowing draws the slow, location-dependent variation around it.
+ */
+export interface PropagationModel {
+  pathLoss(distance: number, frequency: number): number   // dB over metres at MHz
+  shadowing(random: () => number): number                 // dB, one sample
+}
+
+export interface LogDistanceConfig {
+  exponent: number          // 2 in free space, 2.7-3.5 in built-up areas, 4-6 indoors
+  referenceDistance: number // metres; free-space loss up to here
+  shadowSigma: number       // dB, standard deviation of the log-normal shadow fading
+}
+
+export const LOG_DISTANCE_DEFAULTS: LogDistanceConfig = {
+  exponent: 3,
+  referenceDistance: 1,
+  shadowSigma: 2
+}
+
+/**
+ * Log-distance path loss with log-normal shadow fading: free-space loss to
+ * the reference distance, then 10·n·log10(d/d0)
+ */
+export class LogDistanceModel implements PropagationModel {
+  constructor(private config: LogDistanceConfig = LOG_DISTANCE_DEFAULTS) {}
+
+  pathLoss(distance: number, frequency: number): number {
+    const { exponent, referenceDistance } = this.config
+    const d = Math.max(distance, referenceDistance)
+    return freeSpaceLoss(referenceDistance, frequency) + 10 * exponent * Math.log10(d / referenceDistance)
+  }
+
+  shadowing(random: () => number): number {
+    return this.config.shadowSigma * gaussian(random)
+  }
+}
+
+/**
+ * Interferers shared by every device in a run, each live for a while
+ */
+export class RadioEnvironment {
+  private interferers = new Set<Interferer>()
+
+  get active(): Interferer[] {
+    return [...this.interferers]
+  }
+
+  add(interferer: Interferer, duration: number) {
+    this.interferers.add(interferer)
+    setTimeout(() => this.interferers.delete(interferer), duration)
+  }
+}
+
+/**
+ * Distance in metres at which `model`'s median loss reaches `loss` dB,
+ * by bisection (path loss only ever grows with distance); 1 cm to 100 km
+ */
+export function distanceForLoss(model: PropagationModel, loss: number, frequency: number): number {
+  let near = -2
+  let far = 5
+  for (let i = 0; i < 50; i++) {
+    const mid = (near + far) / 2
+    if (model.pathLoss(10 ** mid, frequency) < loss) near = mid
+    else far = mid
+  }
+  return 10 ** ((near + far) / 2)
+}
+
+/**
+ * Free-space path loss in dB (Friis), metres and MHz
+ */
+export function freeSpaceLoss(distance: number, frequency: number): number {
+  return 20 * Math.log10(distance) + 20 * Math.log10(frequency) - 27.55
+}
+
+/**
+ * Ground distance in metres; flat-earth, fine over the few km a cell spans
+ */
+export function distanceBetween(a: Position, b: Position): number {
+  const north = (a.latitude - b.latitude) * METRES_PER_MICRODEGREE
+  const east = (a.longitude - b.longitude) * METRES_PER_MICRODEGREE * Math.cos(a.latitude / 1e6 * Math.PI / 180)
+  return Math.hypot(north, east)
+}
+
+/**
+ * The position `north` and `east` metres away
+ */
+export function offsetBy(position: Position, north: number, east: number): Position {
+  const metresPerLongitude = METRES_PER_MICRODEGREE * Math.cos(position.latitude / 1e6 * Math.PI / 180)
+  return {
+    latitude: position.latitude + Math.round(north / METRES_PER_MICRODEGREE),
+    longitude: position.longitude + Math.round(east / metresPerLongitude)
+  }
+}
+
+/**
+ * dB of an interferer's power that lands in `channel`: its in-band share when
+ * the two overlap (0 dB co-channel), the adjacent-channel rejection when it
+ * sits within one channel width of the band edge, otherwise none (-Infinity)
+ */
+export function channelCoupling(channel: Channel, interferer: Channel): number {
+  const [low, high] = edges(channel)
+  const [interfererLow, interfererHigh] = edges(interferer)
+
+  const overlap = Math.min(high, interfererHigh) - Math.max(low, interfererLow)
+  if (overlap > 0) return 10 * Math.log10(Math.min(1, overlap / (interfererHigh - interfererLow)))
+
+  const gap = Math.max(low - interfererHigh, interfererLow - high)
+  return gap < high - low ? -ADJACENT_CHANNEL_REJECTION_DB : -Infinity
+}
+
+/**
+ * Interference power in dBm a receiver at `position` picks up on `channel`
+ * from `interferers`, at median path loss
+ */
+export function interferencePower(
+  model: PropagationModel,
+  position: Position,
+  channel: Channel,
+  interferers: Interferer[]
+): number {
+  return sumPower(interferers.map(interferer =>
+    interferer.power
+      - model.pathLoss(distanceBetween(position, interferer), interferer.frequency)
+      + channelCoupling(channel, interferer)
+  ))
+}
+
+/**
+ * Sum of powers in dBm (-Infinity for none)
+ */
+export function sumPower(powers: number[]): number {
+  return 10 * Math.log10(powers.reduce((sum, power) => sum + 10 ** (power / 10), 0))
+}
+
+// Band edges in MHz
+function edges({ frequency, bandwidth }: Channel): [number, number] {
+  return [frequency - bandwidth / 2000, frequency + bandwidth / 2000]
+}
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+}
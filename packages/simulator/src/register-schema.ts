@@ -1,9 +1,16 @@
-import { SDK } from '@somnia-chain/streams'
+import { SDK, zeroBytes32 } from '@somnia-chain/streams'
 import { createPublicClient, createWalletClient, http } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
 import { defineChain } from 'viem'
 import { toHex } from 'viem'
 import * as dotenv from 'dotenv'
+import {
+  INTERFERENCE_MAP_SCHEMA_ID,
+  interferenceMapSchema,
+  SIGNAL_SCHEMAS,
+  type SchemaDefinition,
+  type SchemaVersion
+} from '../../../shared/schema.js'
 
 dotenv.config()
 
@@ -19,11 +26,8 @@ const somniaTestnet = defineChain({
   testnet: true
 })
 
-// Signal quality schema (must match shared/schema.ts)
-const signalQualitySchema = `uint64 timestamp,bytes32 deviceId,uint32 frequency,int16 snr,int32 latitude,int32 longitude,uint8 interferenceLevel,uint256 bidPrice`
-
 async function main() {
-  console.log('🔧 Registering Signal Quality Schema on Somnia...')
+  console.log('🔧 Registering Signal Quality Schemas on Somnia...')
   
   // Setup clients
   const account = privateKeyToAccount(process.env.PRIVATE_KEY as `0x${string}`)
@@ -55,30 +59,62 @@ async function main() {
     wallet: walletClient
   })
   
+  // Register every version, parents before children
+  const schemaIds = new Map<SchemaVersion, `0x${string}`>()
+  
+  for (const definition of Object.values(SIGNAL_SCHEMAS)) {
+    const schemaId = await registerVersion(sdk, definition, schemaIds)
+    schemaIds.set(definition.version, schemaId)
+  }
+  
+  // The provider's derived stream stands alone
+  const mapSchemaId = await registerVersion(sdk, { id: INTERFERENCE_MAP_SCHEMA_ID, schema: interferenceMapSchema }, schemaIds)
+  
+  console.log(`\n📋 SAVE THESE VALUES:\n`)
+  console.log(`Publisher Address: ${account.address}`)
+  console.log(`\nAdd to .env files:`)
+  console.log(`SCHEMA_ID=${schemaIds.get(1)}`)
+  console.log(`SCHEMA_ID_V2=${schemaIds.get(2)}`)
+  console.log(`SCHEMA_ID_V3=${schemaIds.get(3)}`)
+  console.log(`INTERFERENCE_MAP_SCHEMA_ID=${mapSchemaId}  # provider only`)
+  console.log(`\nAdd to dashboard .env.local:`)
+  console.log(`NEXT_PUBLIC_SCHEMA_ID=${schemaIds.get(1)}`)
+  console.log(`NEXT_PUBLIC_SCHEMA_ID_V2=${schemaIds.get(2)}`)
+  console.log(`NEXT_PUBLIC_PUBLISHER_ADDRESS=${account.address}`)
+}
+
+async function registerVersion(
+  sdk: SDK,
+  definition: Pick<SchemaDefinition, 'id' | 'schema' | 'parent'> & { version?: SchemaVersion },
+  registered: Map<SchemaVersion, `0x${string}`>
+): Promise<`0x${string}`> {
+  console.log(`\n── ${definition.id}${definition.version ? ` (v${definition.version})` : ''} ──`)
+  
   // Compute schema ID
-  const schemaId = await sdk.streams.computeSchemaId(signalQualitySchema)
+  const schemaId = await sdk.streams.computeSchemaId(definition.schema)
   
   // Handle null case
   if (!schemaId) {
-    throw new Error('Failed to compute schema ID')
+    throw new Error(`Failed to compute schema ID for ${definition.id}`)
   }
   
-  console.log(`\nComputed Schema ID: ${schemaId}`)
+  console.log(`Computed Schema ID: ${schemaId}`)
+  
+  const parentSchemaId = definition.parent
+    ? registered.get(definition.parent)
+    : zeroBytes32 as `0x${string}`
+  
+  if (!parentSchemaId) {
+    throw new Error(`Parent v${definition.parent} of ${definition.id} is not registered`)
+  }
   
   // Check if already registered
   try {
     const isRegistered = await sdk.streams.isDataSchemaRegistered(schemaId)
     
     if (isRegistered) {
-      console.log(`\n⚠️ Schema already registered!`)
-      console.log(`Schema ID: ${schemaId}`)
-      console.log(`Publisher Address: ${account.address}`)
-      console.log(`\nAdd to .env files:`)
-      console.log(`SCHEMA_ID=${schemaId}`)
-      console.log(`\nAdd to dashboard .env.local:`)
-      console.log(`NEXT_PUBLIC_SCHEMA_ID=${schemaId}`)
-      console.log(`NEXT_PUBLIC_PUBLISHER_ADDRESS=${account.address}`)
-      return
+      console.log(`⚠️ Schema already registered!`)
+      return schemaId
     }
   } catch (error) {
     // isDataSchemaRegistered might not exist, continue to register
@@ -87,38 +123,30 @@ async function main() {
   
   // Register schema - CORRECTED: Only 1 argument
   try {
-    console.log('\nRegistering schema...')
+    console.log('Registering schema...')
     
     const tx = await sdk.streams.registerDataSchemas([
       {
-        id: toHex('SignalQuality', { size: 32 }),
-        schema: signalQualitySchema,
-        parentSchemaId: '0x0000000000000000000000000000000000000000000000000000000000000000'
+        id: toHex(definition.id, { size: 32 }),
+        schema: definition.schema,
+        parentSchemaId
       }
     ])
     
-    console.log(`\n✅ Schema registered successfully!`)
+    console.log(`✅ Schema registered successfully!`)
     console.log(`Transaction hash: ${tx}`)
-    console.log(`\n📋 SAVE THESE VALUES:\n`)
-    console.log(`Schema ID: ${schemaId}`)
-    console.log(`Publisher Address: ${account.address}`)
-    console.log(`\nAdd to .env files:`)
-    console.log(`SCHEMA_ID=${schemaId}`)
-    console.log(`\nAdd to dashboard .env.local:`)
-    console.log(`NEXT_PUBLIC_SCHEMA_ID=${schemaId}`)
-    console.log(`NEXT_PUBLIC_PUBLISHER_ADDRESS=${account.address}`)
     
   } catch (error: any) {
     if (error.message?.includes('already registered') || error.message?.includes('SchemaAlreadyRegistered')) {
-      console.log(`\n⚠️ Schema already registered (this is OK)`)
-      console.log(`Schema ID: ${schemaId}`)
-      console.log(`Publisher Address: ${account.address}`)
+      console.log(`⚠️ Schema already registered (this is OK)`)
     } else {
       console.error('\n❌ Error registering schema:')
       console.error(error.message || error)
       throw error
     }
   }
+  
+  return schemaId
 }
 
 main()
@@ -0,0 +1,310 @@
+import { readFileSync } from 'fs'
+import { MICROWAVE, MICROWAVE_DISTANCE, type AccessPoint, type DeviceProfile, type IoTDevice } from './device.js'
+import { RadioEnvironment, offsetBy, type Interferer } from './propagation.js'
+
+/**
+ * One or more devices that share a profile and a join/leave window.
+ * Devices are numbered from 1 across groups, in file order.
+ */
+export interface DeviceGroupConfig {
+  count?: number            // default 1
+  baselineSnr?: number      // dB, median on the starting channel; places each member's access point
+  accessPoint?: {           // or an access point the whole group shares
+    latitude: number
+    longitude: number
+    power?: number          // dBm EIRP (default 20)
+  }
+  frequency?: number        // MHz
+  latitude?: number         // microdegrees
+  longitude?: number
+  spread?: number           // microdegrees; members are scattered this far around latitude/longitude
+  joinMs?: number           // after the scenario starts (default 0)
+  leaveMs?: number          // default: stay until the scenario ends
+}
+
+/**
+ * Either a co-channel source right by each listed device (severityDb), or a
+ * transmitter somewhere on the map (interferer) that every device hears
+ * through the propagation model
+ */
+export interface InterferenceEventConfig {
+  name?: string             // shown in device logs, e.g. "Microwave"
+  startMs: number
+  durationMs: number
+  severityDb?: number       // noise floor rise at the affected devices, so SNR lost
+  devices?: number[]        // device numbers for severityDb; default all
+  interferer?: {
+    latitude: number        // microdegrees
+    longitude: number
+    frequency: number       // MHz
+    bandwidth?: number      // kHz (default 20000)
+    power: number           // dBm EIRP
+  }
+}
+
+export interface ScenarioConfig {
+  name?: string
+  seed?: number             // default 1
+  durationMs?: number       // stop every device after this long; default run until stopped
+  devices: DeviceGroupConfig[]
+  events?: InterferenceEventConfig[]
+}
+
+export interface ScenarioDevice {
+  id: number
+  profile: DeviceProfile
+  joinMs: number
+  leaveMs?: number
+}
+
+export type InterferenceEvent =
+  | { kind: 'local'; name: string; startMs: number; durationMs: number; severityDb: number; devices: number[] }
+  | { kind: 'positioned'; startMs: number; durationMs: number; interferer: Interferer }
+
+/**
+ * Small, fast seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * A scripted simulator run: which devices exist, where and when they are on
+ * the air, and the interference they see. Everything random (placement within
+ * a group's spread, each device's shadow fading) derives from the seed, so the
+ * same scenario and seed replay the same readings.
+ */
+export class Scenario {
+  readonly name: string
+  readonly seed: number
+  readonly durationMs?: number
+  readonly devices: ScenarioDevice[]
+  readonly events: InterferenceEvent[]
+  readonly environment = new RadioEnvironment()
+  private timers: NodeJS.Timeout[] = []
+
+  /**
+   * `seed` overrides the one in the config
+   */
+  constructor(config: ScenarioConfig, seed?: number) {
+    if (!Array.isArray(config.devices) || config.devices.length === 0) {
+      throw new Error('Scenario config must contain a non-empty "devices" array')
+    }
+
+    this.name = config.name ?? 'unnamed'
+    this.seed = seed ?? config.seed ?? 1
+    checkInteger(this.seed, 'seed', 'seed')
+    if (config.durationMs !== undefined) checkTime(config.durationMs, 'durationMs', 'scenario')
+    this.durationMs = config.durationMs
+
+    const placement = seededRandom(this.seed)
+    this.devices = config.devices.flatMap((group, i) => expandGroup(group, `devices[${i}]`, placement))
+    this.devices.forEach((device, i) => {
+      device.id = i + 1
+      device.profile.random = seededRandom(deviceSeed(this.seed, device.id))
+      device.profile.environment = this.environment
+    })
+
+    this.events = (config.events ?? []).map((event, i) => compileEvent(event, `events[${i}]`, this.devices.length))
+  }
+
+  /**
+   * Load a scenario from a JSON file
+   */
+  static fromFile(path: string, seed?: number): Scenario {
+    let config: ScenarioConfig
+    try {
+      config = JSON.parse(readFileSync(path, 'utf8'))
+    } catch (error: any) {
+      throw new Error(`Failed to load scenario file ${path}: ${error.message}`)
+    }
+    return new Scenario(config, seed)
+  }
+
+  /**
+   * The original simulator demo: `devices` devices started 50ms apart,
+   * microwave next to device 1 for 3 seconds after 10. The rest sit 1 km
+   * away, out of its reach.
+   */
+  static demo(devices: number, seed?: number): Scenario {
+    const near = { latitude: 31083000, longitude: 77173000 }
+    const far = offsetBy(near, 1000, 0)
+    return new Scenario({
+      name: 'demo',
+      devices: Array.from({ length: devices }, (_, i) => ({ joinMs: i * 50, ...(i === 0 ? near : far) })),
+      events: [{
+        name: 'Microwave',
+        startMs: 10000,
+        durationMs: 3000,
+        interferer: { ...offsetBy(near, 0, MICROWAVE_DISTANCE), ...MICROWAVE }
+      }]
+    }, seed)
+  }
+
+  /**
+   * Play the timeline against `devices` (devices[i] is device number i + 1,
+   * built with this.devices[i].profile). `onEnd` runs once durationMs is up
+   * and every device has been stopped.
+   */
+  play(devices: IoTDevice[], onEnd?: () => void) {
+    if (devices.length !== this.devices.length) {
+      throw new Error(`Scenario "${this.name}" has ${this.devices.length} devices, got ${devices.length}`)
+    }
+
+    console.log(`🎬 Scenario "${this.name}" (seed ${this.seed}): ${this.devices.length} devices, ${this.events.length} interference events`)
+
+    for (const spec of this.devices) {
+      const device = devices[spec.id - 1]
+      this.at(spec.joinMs, () => {
+        device.startStreaming().catch((error: any) => {
+          console.error(`❌ Device ${spec.id} failed to start:`, error.shortMessage ?? error.message)
+        })
+      })
+      if (spec.leaveMs !== undefined) {
+        this.at(spec.leaveMs, () => {
+          console.log(`🚪 Device ${spec.id} leaving`)
+          device.stop()
+        })
+      }
+    }
+
+    for (const event of this.events) {
+      this.at(event.startMs, () => {
+        if (event.kind === 'local') {
+          for (const id of event.devices) devices[id - 1].triggerInterference(event.durationMs, event.severityDb, event.name)
+          return
+        }
+        const { name, frequency, power } = event.interferer
+        console.log(`🔥 ${name} interference (${frequency} MHz, ${power}dBm) for ${event.durationMs}ms`)
+        this.environment.add(event.interferer, event.durationMs)
+      })
+    }
+
+    if (this.durationMs !== undefined) {
+      this.at(this.durationMs, () => {
+        this.stop()
+        devices.forEach(device => device.stop())
+        console.log(`🏁 Scenario "${this.name}" finished`)
+        onEnd?.()
+      })
+    }
+  }
+
+  /**
+   * Cancel everything still scheduled; devices already streaming keep going
+   */
+  stop() {
+    this.timers.forEach(timer => clearTimeout(timer))
+    this.timers = []
+  }
+
+  private at(ms: number, action: () => void) {
+    this.timers.push(setTimeout(action, ms))
+  }
+}
+
+function expandGroup(group: DeviceGroupConfig, where: string, placement: () => number): ScenarioDevice[] {
+  const count = group.count ?? 1
+  checkInteger(count, 'count', where, 1)
+  const joinMs = group.joinMs ?? 0
+  checkTime(joinMs, 'joinMs', where)
+  if (group.leaveMs !== undefined) {
+    checkTime(group.leaveMs, 'leaveMs', where)
+    if (group.leaveMs <= joinMs) throw new Error(`Scenario "${where}": leaveMs must be after joinMs`)
+  }
+  if (group.frequency !== undefined) checkInteger(group.frequency, 'frequency', where, 1)
+  if (group.baselineSnr !== undefined && !Number.isFinite(group.baselineSnr)) {
+    throw new Error(`Scenario "${where}": baselineSnr must be a number`)
+  }
+  let accessPoint: AccessPoint | undefined
+  if (group.accessPoint) {
+    if (group.baselineSnr !== undefined) throw new Error(`Scenario "${where}": give baselineSnr or accessPoint, not both`)
+    checkPosition(group.accessPoint, `${where}.accessPoint`)
+    accessPoint = { latitude: group.accessPoint.latitude, longitude: group.accessPoint.longitude, power: group.accessPoint.power ?? 20 }
+    checkPower(accessPoint.power, `${where}.accessPoint`)
+  }
+  if (group.latitude !== undefined) checkInteger(group.latitude, 'latitude', where, -90_000_000, 90_000_000)
+  if (group.longitude !== undefined) checkInteger(group.longitude, 'longitude', where, -180_000_000, 180_000_000)
+  const spread = group.spread ?? 0
+  checkInteger(spread, 'spread', where, 0)
+
+  return Array.from({ length: count }, () => {
+    const profile: DeviceProfile = { baselineSnr: group.baselineSnr, accessPoint, frequency: group.frequency }
+    if (group.latitude !== undefined || group.longitude !== undefined || spread > 0) {
+      profile.latitude = (group.latitude ?? 31083000) + Math.round((placement() * 2 - 1) * spread)
+      profile.longitude = (group.longitude ?? 77173000) + Math.round((placement() * 2 - 1) * spread)
+    }
+    return { id: 0, profile, joinMs, leaveMs: group.leaveMs }
+  })
+}
+
+function compileEvent(event: InterferenceEventConfig, where: string, deviceCount: number): InterferenceEvent {
+  checkTime(event.startMs, 'startMs', where)
+  checkInteger(event.durationMs, 'durationMs', where, 1)
+  const name = event.name ?? 'External'
+
+  if (event.interferer) {
+    if (event.severityDb !== undefined || event.devices !== undefined) {
+      throw new Error(`Scenario "${where}": an interferer reaches devices by position; drop severityDb and devices`)
+    }
+    const { latitude, longitude, frequency, bandwidth = 20000, power } = event.interferer
+    checkPosition({ latitude, longitude }, `${where}.interferer`)
+    checkInteger(frequency, 'frequency', `${where}.interferer`, 1)
+    checkInteger(bandwidth, 'bandwidth', `${where}.interferer`, 1)
+    checkPower(power, `${where}.interferer`)
+    return {
+      kind: 'positioned',
+      startMs: event.startMs,
+      durationMs: event.durationMs,
+      interferer: { name, latitude, longitude, frequency, bandwidth, power }
+    }
+  }
+
+  if (event.severityDb === undefined || !Number.isFinite(event.severityDb) || event.severityDb <= 0) {
+    throw new Error(`Scenario "${where}": severityDb must be a positive number (or give an interferer)`)
+  }
+
+  const devices = event.devices ?? Array.from({ length: deviceCount }, (_, i) => i + 1)
+  for (const id of devices) checkInteger(id, 'devices', where, 1, deviceCount)
+
+  return {
+    kind: 'local',
+    name,
+    startMs: event.startMs,
+    durationMs: event.durationMs,
+    severityDb: event.severityDb,
+    devices
+  }
+}
+
+// Independent stream per device, so adding a device doesn't shift the others' noise
+function deviceSeed(seed: number, id: number): number {
+  return (seed ^ Math.imul(id, 0x9e3779b1)) >>> 0
+}
+
+function checkPosition({ latitude, longitude }: { latitude: number; longitude: number }, where: string) {
+  checkInteger(latitude, 'latitude', where, -90_000_000, 90_000_000)
+  checkInteger(longitude, 'longitude', where, -180_000_000, 180_000_000)
+}
+
+function checkPower(power: number, where: string) {
+  if (!Number.isFinite(power)) throw new Error(`Scenario "${where}": power must be a number (dBm)`)
+}
+
+function checkTime(ms: number, field: string, where: string) {
+  checkInteger(ms, field, where, 0)
+}
+
+function checkInteger(value: number, field: string, where: string, min = -Infinity, max = Infinity) {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range = max === Infinity ? (min === -Infinity ? '' : ` >= ${min}`) : ` in ${min}..${max}`
+    throw new Error(`Scenario "${where}": ${field} must be an integer${range}`)
+  }
+}
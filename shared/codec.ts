@@ -0,0 +1,296 @@
+import { SchemaEncoder } from '@somnia-chain/streams'
+import { isHex, type Hex } from 'viem'
+import {
+  fullSchema,
+  interferenceMapSchema,
+  type CellSummary,
+  type RfMetrics,
+  type SchemaVersion,
+  type SignalData
+} from './schema.js'
+
+// Typed SignalData <-> Streams record conversion, shared by simulator and provider;
+// also the provider's derived interference map records
+
+export class SignalCodecError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SignalCodecError'
+  }
+}
+
+/**
+ * Record is not shaped like a SignalData record (missing field, wrong type)
+ */
+export class MalformedRecordError extends SignalCodecError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MalformedRecordError'
+  }
+}
+
+/**
+ * A field decoded fine but holds a value outside its allowed range
+ */
+export class FieldRangeError extends SignalCodecError {
+  constructor(
+    public readonly field: keyof SignalData | keyof RfMetrics | keyof CellSummary,
+    public readonly value: number | bigint | string
+  ) {
+    super(`${field} out of range: ${value}`)
+    this.name = 'FieldRangeError'
+  }
+}
+
+/**
+ * Decoded item as returned by the Streams SDK for public schemas
+ */
+export interface DecodedField {
+  name: string
+  value: unknown
+}
+
+type NumericField = Exclude<keyof SignalData, 'deviceId' | 'bidPrice' | 'rf' | 'signature'>
+
+// Inclusive bounds; coordinates are microdegrees
+const RANGES: Record<NumericField, [number, number]> = {
+  timestamp: [0, Number.MAX_SAFE_INTEGER],
+  frequency: [1, 2 ** 32 - 1],
+  snr: [-(2 ** 15), 2 ** 15 - 1],
+  latitude: [-90_000_000, 90_000_000],
+  longitude: [-180_000_000, 180_000_000],
+  interferenceLevel: [0, 5]
+}
+
+// v2 RF fields; dBm bounds are physical limits, not just the int width
+const RF_RANGES: Record<keyof RfMetrics, [number, number]> = {
+  rssi: [-150, 30],
+  noiseFloor: [-150, 0],
+  bandwidth: [1, 2 ** 32 - 1],
+  txPower: [-128, 127],
+  channelOccupancy: [0, 100]
+}
+
+// Every CellSummary field is an integer
+const CELL_RANGES: Record<keyof CellSummary, [number, number]> = {
+  windowStart: [0, Number.MAX_SAFE_INTEGER],
+  windowEnd: [0, Number.MAX_SAFE_INTEGER],
+  frequency: [1, 2 ** 32 - 1],
+  latitude: [-90_000_000, 90_000_000],
+  longitude: [-180_000_000, 180_000_000],
+  cellSize: [1, 2 ** 32 - 1],
+  devices: [0, 2 ** 16 - 1],
+  readings: [0, 2 ** 32 - 1],
+  meanSnr: [-(2 ** 15), 2 ** 15 - 1],
+  minSnr: [-(2 ** 15), 2 ** 15 - 1],
+  meanInterference: [0, 50],
+  maxInterference: [0, 5],
+  activeGrants: [0, 2 ** 16 - 1],
+  capacity: [0, 2 ** 16 - 1]
+}
+
+const UINT256_MAX = 2n ** 256n - 1n
+
+const encoders: Record<SchemaVersion, SchemaEncoder> = {
+  1: new SchemaEncoder(fullSchema(1)),
+  2: new SchemaEncoder(fullSchema(2)),
+  3: new SchemaEncoder(fullSchema(3))
+}
+
+const cellEncoder = new SchemaEncoder(interferenceMapSchema)
+
+/**
+ * Check every field against its schema range; returns the input for chaining
+ */
+export function validateSignalData(data: SignalData): SignalData {
+  for (const [field, [min, max]] of Object.entries(RANGES) as [NumericField, [number, number]][]) {
+    const value = data[field]
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new FieldRangeError(field, value)
+    }
+  }
+
+  if (!isHex(data.deviceId) || data.deviceId.length !== 66 || BigInt(data.deviceId) === 0n) {
+    throw new FieldRangeError('deviceId', data.deviceId)
+  }
+  if (data.bidPrice < 0n || data.bidPrice > UINT256_MAX) {
+    throw new FieldRangeError('bidPrice', data.bidPrice)
+  }
+
+  // 65-byte r || s || v
+  if (data.signature !== undefined && (!isHex(data.signature) || data.signature.length !== 132)) {
+    throw new FieldRangeError('signature', data.signature)
+  }
+
+  if (data.rf) {
+    for (const [field, [min, max]] of Object.entries(RF_RANGES) as [keyof RfMetrics, [number, number]][]) {
+      const value = data.rf[field]
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new FieldRangeError(field, value)
+      }
+    }
+  }
+
+  return data
+}
+
+/**
+ * Schema version a record must be published under
+ */
+export function versionOf(data: SignalData): SchemaVersion {
+  return data.signature ? 3 : data.rf ? 2 : 1
+}
+
+export function encodeSignalData(data: SignalData, version: SchemaVersion = versionOf(data)): Hex {
+  validateSignalData(data)
+  if (version >= 2 && !data.rf) {
+    throw new MalformedRecordError(`v${version} records need RF metrics`)
+  }
+  if (version === 3 && !data.signature) {
+    throw new MalformedRecordError('v3 records need a signature')
+  }
+
+  const values: Record<string, unknown> = { ...data, ...data.rf }
+  const encoder = encoders[version]
+
+  return encoder.encodeData(encoder.schema.map(item => ({
+    name: item.name,
+    type: item.type,
+    value: item.type === 'bytes32' || item.type === 'bytes' ? values[item.name] as string : String(values[item.name])
+  })))
+}
+
+/**
+ * Decode a record by field name. Accepts the SDK's decoded field array
+ * (either version) or raw hex of the given version (private schemas).
+ */
+export function decodeSignalData(record: unknown, version: SchemaVersion = 1): SignalData {
+  const fields = isHex(record) ? decodeHex(record, version) : record
+  if (!Array.isArray(fields)) {
+    throw new MalformedRecordError('Expected an array of decoded fields')
+  }
+
+  const byName = new Map<string, unknown>()
+  for (const field of fields as DecodedField[]) {
+    if (!field || typeof field.name !== 'string') {
+      throw new MalformedRecordError('Decoded field without a name')
+    }
+    byName.set(field.name, unwrap(field.value))
+  }
+
+  const read = (name: Exclude<keyof SignalData, 'rf' | 'signature'> | keyof RfMetrics): unknown => {
+    if (!byName.has(name)) throw new MalformedRecordError(`Missing field "${name}"`)
+    return byName.get(name)
+  }
+
+  const rf: RfMetrics | undefined = byName.has('rssi')
+    ? {
+        rssi: toNumber(read('rssi'), 'rssi'),
+        noiseFloor: toNumber(read('noiseFloor'), 'noiseFloor'),
+        bandwidth: toNumber(read('bandwidth'), 'bandwidth'),
+        txPower: toNumber(read('txPower'), 'txPower'),
+        channelOccupancy: toNumber(read('channelOccupancy'), 'channelOccupancy')
+      }
+    : undefined
+
+  return validateSignalData({
+    timestamp: toNumber(read('timestamp'), 'timestamp'),
+    deviceId: toHexField(read('deviceId'), 'deviceId'),
+    frequency: toNumber(read('frequency'), 'frequency'),
+    snr: toNumber(read('snr'), 'snr'),
+    latitude: toNumber(read('latitude'), 'latitude'),
+    longitude: toNumber(read('longitude'), 'longitude'),
+    interferenceLevel: toNumber(read('interferenceLevel'), 'interferenceLevel'),
+    bidPrice: toBigInt(read('bidPrice')),
+    ...(rf && { rf }),
+    ...(byName.has('signature') && { signature: toHexField(byName.get('signature'), 'signature') })
+  })
+}
+
+export function validateCellSummary(cell: CellSummary): CellSummary {
+  for (const [field, [min, max]] of Object.entries(CELL_RANGES) as [keyof CellSummary, [number, number]][]) {
+    const value = cell[field]
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new FieldRangeError(field, value)
+    }
+  }
+  return cell
+}
+
+export function encodeCellSummary(cell: CellSummary): Hex {
+  validateCellSummary(cell)
+  return cellEncoder.encodeData(cellEncoder.schema.map(item => ({
+    name: item.name,
+    type: item.type,
+    value: String(cell[item.name as keyof CellSummary])
+  })))
+}
+
+/**
+ * Decode an interference map record, as decoded fields or raw hex
+ */
+export function decodeCellSummary(record: unknown): CellSummary {
+  const fields = isHex(record) ? decodeWith(cellEncoder, record) : record
+  if (!Array.isArray(fields)) {
+    throw new MalformedRecordError('Expected an array of decoded fields')
+  }
+
+  const byName = new Map<string, unknown>()
+  for (const field of fields as DecodedField[]) {
+    if (!field || typeof field.name !== 'string') {
+      throw new MalformedRecordError('Decoded field without a name')
+    }
+    byName.set(field.name, unwrap(field.value))
+  }
+
+  const cell = {} as CellSummary
+  for (const field of Object.keys(CELL_RANGES) as (keyof CellSummary)[]) {
+    if (!byName.has(field)) throw new MalformedRecordError(`Missing field "${field}"`)
+    cell[field] = toNumber(byName.get(field), field)
+  }
+  return validateCellSummary(cell)
+}
+
+function decodeHex(data: Hex, version: SchemaVersion): unknown {
+  return decodeWith(encoders[version], data)
+}
+
+function decodeWith(encoder: SchemaEncoder, data: Hex): unknown {
+  try {
+    return encoder.decodeData(data)
+  } catch (error: any) {
+    throw new MalformedRecordError(`Undecodable record: ${error.shortMessage ?? error.message}`)
+  }
+}
+
+// The SDK nests each value as { name, type, value }
+function unwrap(value: unknown): unknown {
+  if (value && typeof value === 'object' && 'value' in value) {
+    return (value as { value: unknown }).value
+  }
+  return value
+}
+
+function toNumber(value: unknown, field: keyof SignalData | keyof RfMetrics | keyof CellSummary): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'bigint') {
+    if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+      throw new FieldRangeError(field, value)
+    }
+    return Number(value)
+  }
+  throw new MalformedRecordError(`Field "${field}" is not numeric`)
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') return value
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value)
+  throw new MalformedRecordError('Field "bidPrice" is not an integer')
+}
+
+function toHexField(value: unknown, field: 'deviceId' | 'signature'): `0x${string}` {
+  if (typeof value !== 'string') {
+    throw new MalformedRecordError(`Field "${field}" is not a hex string`)
+  }
+  return value as `0x${string}`
+}
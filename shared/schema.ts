@@ -1,16 +1,54 @@
-// This schema is used by simulator, provider, and dashboard
-export const signalQualitySchema = `
-  uint64 timestamp,
-  bytes32 deviceId,
-  uint32 frequency,
-  int16 snr,
-  int32 latitude,
-  int32 longitude,
-  uint8 interferenceLevel,
-  uint256 bidPrice
-`
+// This schema is used by simulator, provider, and dashboard.
+// Keep it on one line: the schema ID is computed on-chain from this exact string.
+export const signalQualitySchema = `uint64 timestamp,bytes32 deviceId,uint32 frequency,int16 snr,int32 latitude,int32 longitude,uint8 interferenceLevel,uint256 bidPrice`
+
+// v2 extends v1 via parentSchemaId. Streams registers only the extension
+// fields for a child schema and lays records out as `<child>,<parent>`.
+export const signalQualityV2Schema = `int16 rssi,int16 noiseFloor,uint32 bandwidth,int8 txPower,uint8 channelOccupancy`
+
+// v3 is a v2 record signed by the device's own key (EIP-712, see signing.ts)
+export const signalQualityV3Schema = `bytes signature`
+
+// Derived stream: the provider's rolling per-cell summary of readings on one
+// channel. Standalone (no parent); see CellSummary for units.
+export const interferenceMapSchema = `uint64 windowStart,uint64 windowEnd,uint32 frequency,int32 latitude,int32 longitude,uint32 cellSize,uint16 devices,uint32 readings,int16 meanSnr,int16 minSnr,uint8 meanInterference,uint8 maxInterference,uint16 activeGrants,uint16 capacity`
+
+export const INTERFERENCE_MAP_SCHEMA_ID = 'InterferenceMap'
+
+export type SchemaVersion = 1 | 2 | 3
+
+export interface SchemaDefinition {
+  version: SchemaVersion
+  id: string               // human-readable id passed to registerDataSchemas
+  schema: string           // fields registered for this version only
+  parent?: SchemaVersion
+}
+
+export const SIGNAL_SCHEMAS: Record<SchemaVersion, SchemaDefinition> = {
+  1: { version: 1, id: 'SignalQuality', schema: signalQualitySchema },
+  2: { version: 2, id: 'SignalQualityV2', schema: signalQualityV2Schema, parent: 1 },
+  3: { version: 3, id: 'SignalQualityV3', schema: signalQualityV3Schema, parent: 2 }
+}
+
+/**
+ * Complete field list of a version, in on-chain record order
+ */
+export function fullSchema(version: SchemaVersion): string {
+  const definition = SIGNAL_SCHEMAS[version]
+  return definition.parent
+    ? `${definition.schema},${fullSchema(definition.parent)}`
+    : definition.schema
+}
 
 // Helper types for TypeScript
+export interface RfMetrics {
+  rssi: number              // dBm
+  noiseFloor: number        // dBm
+  bandwidth: number         // kHz
+  txPower: number           // dBm
+  channelOccupancy: number  // % of airtime busy (0-100)
+}
+
 export interface SignalData {
   timestamp: number
   deviceId: string
@@ -20,4 +58,23 @@ export interface SignalData {
   longitude: number
   interferenceLevel: number
   bidPrice: bigint
+  rf?: RfMetrics            // present on v2 and v3 records
+  signature?: `0x${string}` // present on v3 records
+}
+
+export interface CellSummary {
+  windowStart: number       // ms, first reading in the window
+  windowEnd: number         // ms, when the summary was taken
+  frequency: number         // MHz
+  latitude: number          // south-west corner of the cell, microdegrees
+  longitude: number
+  cellSize: number          // side of the cell, microdegrees (SpectrumMarket.cellSize)
+  devices: number           // distinct devices reporting
+  readings: number
+  meanSnr: number           // tenths of a dB
+  minSnr: number            // dB
+  meanInterference: number  // tenths of a level (0-50)
+  maxInterference: number   // 0-5
+  activeGrants: number      // SpectrumMarket grants live in the cell at windowEnd
+  capacity: number          // grants the cell allows on this channel
 }
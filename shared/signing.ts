@@ -0,0 +1,73 @@
+import { recoverTypedDataAddress, type LocalAccount } from 'viem'
+import type { SignalData } from './schema.js'
+
+// EIP-712 signing of telemetry, shared by simulator (signs) and provider (verifies)
+
+/**
+ * Binds signatures to one chain and one SpectrumMarket deployment, so a
+ * reading signed for one market cannot be replayed against another
+ */
+export interface SigningDomain {
+  chainId: number
+  verifyingContract: `0x${string}`
+}
+
+// Every v2 field; the signature itself is the only v3 field
+const SIGNAL_TYPES = {
+  SignalReading: [
+    { name: 'timestamp', type: 'uint64' },
+    { name: 'deviceId', type: 'bytes32' },
+    { name: 'frequency', type: 'uint32' },
+    { name: 'snr', type: 'int16' },
+    { name: 'latitude', type: 'int32' },
+    { name: 'longitude', type: 'int32' },
+    { name: 'interferenceLevel', type: 'uint8' },
+    { name: 'bidPrice', type: 'uint256' },
+    { name: 'rssi', type: 'int16' },
+    { name: 'noiseFloor', type: 'int16' },
+    { name: 'bandwidth', type: 'uint32' },
+    { name: 'txPower', type: 'int8' },
+    { name: 'channelOccupancy', type: 'uint8' }
+  ]
+} as const
+
+function typedReading(data: SignalData, domain: SigningDomain) {
+  if (!data.rf) throw new Error('Signed readings need RF metrics')
+
+  return {
+    domain: { name: 'EtherSignal', version: '1', ...domain },
+    types: SIGNAL_TYPES,
+    primaryType: 'SignalReading',
+    message: {
+      timestamp: BigInt(data.timestamp),
+      deviceId: data.deviceId as `0x${string}`,
+      frequency: data.frequency,
+      snr: data.snr,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      interferenceLevel: data.interferenceLevel,
+      bidPrice: data.bidPrice,
+      ...data.rf
+    }
+  } as const
+}
+
+/**
+ * Sign a reading with the device key; returns it with `signature` set
+ */
+export async function signSignalData(
+  account: LocalAccount,
+  data: SignalData,
+  domain: SigningDomain
+): Promise<SignalData> {
+  const signature = await account.signTypedData(typedReading(data, domain))
+  return { ...data, signature }
+}
+
+/**
+ * Address whose key signed the reading
+ */
+export async function recoverSignalSigner(data: SignalData, domain: SigningDomain): Promise<`0x${string}`> {
+  if (!data.signature) throw new Error('Reading is not signed')
+  return recoverTypedDataAddress({ ...typedReading(data, domain), signature: data.signature })
+}
@@ -0,0 +1,16 @@
+import type { SDK } from '@somnia-chain/streams'
+
+/**
+ * The part of the Somnia Streams SDK this project relies on. Satisfied by
+ * `new SDK(...).streams` on a real chain and by the devnet's in-memory store.
+ */
+export type StreamsClient = Pick<
+  SDK['streams'],
+  | 'set'
+  | 'getAtIndex'
+  | 'getBetweenRange'
+  | 'totalPublisherDataForSchema'
+  | 'computeSchemaId'
+  | 'registerDataSchemas'
+  | 'isDataSchemaRegistered'
+>